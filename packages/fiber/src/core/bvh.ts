@@ -0,0 +1,269 @@
+import * as THREE from 'three'
+
+// Leaves hold at most this many triangles
+const MAX_LEAF_SIZE = 8
+// Guards against degenerate geometry splitting endlessly
+const MAX_DEPTH = 40
+
+type Attribute = THREE.BufferAttribute | THREE.InterleavedBufferAttribute
+
+type BVHNode = {
+  box: THREE.Box3
+  /** Range of the triangle order the node covers */
+  start: number
+  count: number
+  left: BVHNode | null
+  right: BVHNode | null
+}
+
+type BVH = {
+  root: BVHNode
+  /** Triangles ordered so that every leaf owns a contiguous range */
+  triangles: Uint32Array
+  /** Index (or vertex) offset of the first triangle within the draw range */
+  offset: number
+  /** Attributes and their versions the hierarchy was built from */
+  position: Attribute
+  index: THREE.BufferAttribute | null
+  version: string
+}
+
+const cache = new WeakMap<THREE.BufferGeometry, BVH>()
+
+const getAttributeVersion = (attribute: Attribute) =>
+  (attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (attribute as THREE.InterleavedBufferAttribute).data.version
+    : (attribute as THREE.BufferAttribute).version
+
+function getVersion(geometry: THREE.BufferGeometry) {
+  const { index, drawRange } = geometry
+  const position = geometry.attributes.position
+  return `${getAttributeVersion(position)}/${index?.version}/${drawRange.start}/${drawRange.count}`
+}
+
+const _a = new THREE.Vector3()
+const _b = new THREE.Vector3()
+const _c = new THREE.Vector3()
+
+function buildBVH(geometry: THREE.BufferGeometry): BVH {
+  const { index, drawRange } = geometry
+  const position = geometry.attributes.position
+  const offset = Math.max(0, drawRange.start)
+  const end = Math.min(index ? index.count : position.count, drawRange.start + drawRange.count)
+  const count = Math.max(0, Math.floor((end - offset) / 3))
+
+  // Gather bounds and centroids of every triangle
+  const bounds = new Float32Array(count * 6)
+  const centroids = new Float32Array(count * 3)
+  const triangles = new Uint32Array(count)
+  for (let t = 0; t < count; t++) {
+    const i = offset + t * 3
+    _a.fromBufferAttribute(position, index ? index.getX(i) : i)
+    _b.fromBufferAttribute(position, index ? index.getX(i + 1) : i + 1)
+    _c.fromBufferAttribute(position, index ? index.getX(i + 2) : i + 2)
+    for (let axis = 0; axis < 3; axis++) {
+      const min = Math.min(_a.getComponent(axis), _b.getComponent(axis), _c.getComponent(axis))
+      const max = Math.max(_a.getComponent(axis), _b.getComponent(axis), _c.getComponent(axis))
+      bounds[t * 6 + axis] = min
+      bounds[t * 6 + axis + 3] = max
+      centroids[t * 3 + axis] = (min + max) / 2
+    }
+    triangles[t] = t
+  }
+
+  function build(start: number, count: number, depth: number): BVHNode {
+    const box = new THREE.Box3()
+    const centroidMin = [Infinity, Infinity, Infinity]
+    const centroidMax = [-Infinity, -Infinity, -Infinity]
+    for (let i = start; i < start + count; i++) {
+      const t = triangles[i]
+      box.expandByPoint(_a.fromArray(bounds, t * 6)).expandByPoint(_a.fromArray(bounds, t * 6 + 3))
+      for (let axis = 0; axis < 3; axis++) {
+        centroidMin[axis] = Math.min(centroidMin[axis], centroids[t * 3 + axis])
+        centroidMax[axis] = Math.max(centroidMax[axis], centroids[t * 3 + axis])
+      }
+    }
+
+    const node: BVHNode = { box, start, count, left: null, right: null }
+    if (count <= MAX_LEAF_SIZE || depth >= MAX_DEPTH) return node
+
+    // Split at the middle of the longest axis of the centroids
+    let axis = 0
+    for (let i = 1; i < 3; i++) {
+      if (centroidMax[i] - centroidMin[i] > centroidMax[axis] - centroidMin[axis]) axis = i
+    }
+    if (centroidMax[axis] === centroidMin[axis]) return node
+    const split = (centroidMin[axis] + centroidMax[axis]) / 2
+
+    let left = start
+    let right = start + count - 1
+    while (left <= right) {
+      if (centroids[triangles[left] * 3 + axis] < split) left++
+      else {
+        const t = triangles[left]
+        triangles[left] = triangles[right]
+        triangles[right--] = t
+      }
+    }
+
+    // Fall back to an even split if all centroids ended up on one side
+    let leftCount = left - start
+    if (leftCount === 0 || leftCount === count) leftCount = count >> 1
+
+    node.left = build(start, leftCount, depth + 1)
+    node.right = build(start + leftCount, count - leftCount, depth + 1)
+    return node
+  }
+
+  return {
+    root: build(0, count, 0),
+    triangles,
+    offset,
+    position,
+    index,
+    version: getVersion(geometry),
+  }
+}
+
+/**
+ * Returns the bounding volume hierarchy of a geometry's triangles, (re)building it when its attributes changed.
+ */
+function getBVH(geometry: THREE.BufferGeometry): BVH {
+  let bvh = cache.get(geometry)
+  if (
+    !bvh ||
+    bvh.position !== geometry.attributes.position ||
+    bvh.index !== geometry.index ||
+    bvh.version !== getVersion(geometry)
+  ) {
+    cache.set(geometry, (bvh = buildBVH(geometry)))
+  }
+  return bvh
+}
+
+// Meshes the hierarchy can stand in for, everything else goes through its own raycast
+function isSupported(object: THREE.Object3D): object is THREE.Mesh {
+  const mesh = object as THREE.Mesh
+  return (
+    mesh.isMesh &&
+    mesh.raycast === THREE.Mesh.prototype.raycast &&
+    !(mesh as THREE.SkinnedMesh).isSkinnedMesh &&
+    !Array.isArray(mesh.material) &&
+    !!mesh.geometry?.attributes.position &&
+    !(mesh.geometry.morphAttributes.position && mesh.morphTargetInfluences)
+  )
+}
+
+const _inverse = new THREE.Matrix4()
+const _sphere = new THREE.Sphere()
+const _ray = new THREE.Ray()
+const _point = new THREE.Vector3()
+const _world = new THREE.Vector3()
+const _closest = new THREE.Vector3()
+const _uvA = new THREE.Vector2()
+const _uvB = new THREE.Vector2()
+const _uvC = new THREE.Vector2()
+const stack: BVHNode[] = []
+
+function getUV(uv: THREE.BufferAttribute, a: number, b: number, c: number) {
+  _uvA.fromBufferAttribute(uv, a)
+  _uvB.fromBufferAttribute(uv, b)
+  _uvC.fromBufferAttribute(uv, c)
+  return THREE.Triangle.getUV(_closest, _a, _b, _c, _uvA, _uvB, _uvC, new THREE.Vector2())
+}
+
+/**
+ * Raycasts a mesh against the hierarchy of its geometry, adding its closest intersection.
+ */
+function raycastMesh(mesh: THREE.Mesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+  const geometry = mesh.geometry
+  const material = mesh.material as THREE.Material
+  if (material === undefined) return
+
+  if (geometry.boundingSphere === null) geometry.computeBoundingSphere()
+  _sphere.copy(geometry.boundingSphere!).applyMatrix4(mesh.matrixWorld)
+  if (!raycaster.ray.intersectsSphere(_sphere)) return
+
+  _inverse.copy(mesh.matrixWorld).invert()
+  _ray.copy(raycaster.ray).applyMatrix4(_inverse)
+
+  const { root, triangles, offset, position, index } = getBVH(geometry)
+  const getVertex = (i: number) => (index ? index.getX(i) : i)
+
+  // Distances along the local ray, they keep the order of world distances
+  let closest = Infinity
+  let hit = -1
+  let distance = 0
+
+  stack.push(root)
+  while (stack.length) {
+    const node = stack.pop()!
+    if (!_ray.intersectBox(node.box, _point) || _point.distanceTo(_ray.origin) > closest) continue
+    if (node.left && node.right) {
+      stack.push(node.left, node.right)
+      continue
+    }
+
+    for (let j = node.start; j < node.start + node.count; j++) {
+      const i = offset + triangles[j] * 3
+      _a.fromBufferAttribute(position, getVertex(i))
+      _b.fromBufferAttribute(position, getVertex(i + 1))
+      _c.fromBufferAttribute(position, getVertex(i + 2))
+
+      const intersect =
+        material.side === THREE.BackSide
+          ? _ray.intersectTriangle(_c, _b, _a, true, _point)
+          : _ray.intersectTriangle(_a, _b, _c, material.side !== THREE.DoubleSide, _point)
+      if (!intersect) continue
+
+      const local = _point.distanceTo(_ray.origin)
+      if (local >= closest) continue
+
+      const world = _world.copy(_point).applyMatrix4(mesh.matrixWorld).distanceTo(raycaster.ray.origin)
+      if (world < raycaster.near || world > raycaster.far) continue
+
+      closest = local
+      distance = world
+      hit = i
+      _closest.copy(_point)
+    }
+  }
+
+  if (hit === -1) return
+
+  const a = getVertex(hit)
+  const b = getVertex(hit + 1)
+  const c = getVertex(hit + 2)
+  _a.fromBufferAttribute(position, a)
+  _b.fromBufferAttribute(position, b)
+  _c.fromBufferAttribute(position, c)
+
+  const intersection: THREE.Intersection = {
+    distance,
+    point: _closest.clone().applyMatrix4(mesh.matrixWorld),
+    object: mesh,
+    face: { a, b, c, normal: THREE.Triangle.getNormal(_a, _b, _c, new THREE.Vector3()), materialIndex: 0 },
+    faceIndex: Math.floor(hit / 3),
+  }
+  if (geometry.attributes.uv) intersection.uv = getUV(geometry.attributes.uv as THREE.BufferAttribute, a, b, c)
+  if (geometry.attributes.uv2) intersection.uv2 = getUV(geometry.attributes.uv2 as THREE.BufferAttribute, a, b, c)
+  intersects.push(intersection)
+}
+
+function intersect(raycaster: THREE.Raycaster, object: THREE.Object3D, intersects: THREE.Intersection[]) {
+  if (object.layers.test(raycaster.layers)) {
+    if (isSupported(object)) raycastMesh(object, raycaster, intersects)
+    else object.raycast(raycaster, intersects)
+  }
+  for (const child of object.children) intersect(raycaster, child, intersects)
+}
+
+/**
+ * Intersects an object and its descendants like `Raycaster.intersectObject`, but meshes are raycast against a cached
+ * bounding volume hierarchy of their geometry. These only report their closest intersection.
+ */
+export function intersectObjectBVH(raycaster: THREE.Raycaster, object: THREE.Object3D): THREE.Intersection[] {
+  const intersects: THREE.Intersection[] = []
+  intersect(raycaster, object, intersects)
+  return intersects.sort((a, b) => a.distance - b.distance)
+}
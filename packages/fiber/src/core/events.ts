@@ -1,14 +1,17 @@
 import * as THREE from 'three'
 import { ContinuousEventPriority, DiscreteEventPriority, DefaultEventPriority } from 'react-reconciler/constants'
 import { getRootState } from './utils'
+import { intersectObjectBVH } from './bvh'
 import type { UseBoundStore } from 'zustand'
 import type { Instance } from './renderer'
-import type { RootState } from './store'
+import type { InternalState, RootState } from './store'
 import type { Properties } from '../three-types'
 
 export interface Intersection extends THREE.Intersection {
   /** The event source (the object which registered the handler) */
   eventObject: THREE.Object3D
+  /** The geometry that was hit within a BatchedMesh */
+  batchId?: number
 }
 
 export interface IntersectionEvent<TSourceEvent> extends Intersection {
@@ -34,8 +37,52 @@ export interface IntersectionEvent<TSourceEvent> extends Intersection {
   stopped: boolean
 }
 
+export interface TargetedEvent<TSourceEvent> {
+  /** The object that has focus, or is receiving it */
+  object: THREE.Object3D
+  /** The event source (the object which registered the handler) */
+  eventObject: THREE.Object3D
+  /** stopPropagation will stop handlers of parents from firing */
+  stopPropagation: () => void
+  /** The original host event, null when focus was changed programmatically */
+  nativeEvent: TSourceEvent
+  /** If the event was stopped by calling stopPropagation */
+  stopped: boolean
+}
+
 export type Camera = THREE.OrthographicCamera | THREE.PerspectiveCamera
 export type ThreeEvent<TEvent> = IntersectionEvent<TEvent> & Properties<TEvent>
+export type ThreeKeyboardEvent = TargetedEvent<KeyboardEvent> & Properties<KeyboardEvent>
+export type ThreeFocusEvent = TargetedEvent<Event | null> & {
+  /** The object that lost focus on focus, or that receives it on blur */
+  relatedObject: THREE.Object3D | null
+}
+export type ThreeGestureEvent = ThreeEvent<PointerEvent> & {
+  /** Positions of the pointers on the object in canvas pixels, the first two make up the gesture */
+  pointers: THREE.Vector2[]
+  /** Change in distance between the pointers since the gesture started, as a factor */
+  scale: number
+  /** Clockwise rotation of the pointers on screen since the gesture started, in radians */
+  rotation: number
+  /** Movement of the pointers' center since the gesture started, in canvas pixels */
+  translation: THREE.Vector2
+  /** Change in scale since the previous gesture event, as a factor */
+  scaleDelta: number
+  /** Rotation since the previous gesture event, in radians */
+  rotationDelta: number
+  /** Movement since the previous gesture event, in canvas pixels */
+  translationDelta: THREE.Vector2
+}
+export type ThreeDragEvent = ThreeEvent<PointerEvent> & {
+  /** World-space distance the pointer moved along the drag plane since the drag started */
+  offset: THREE.Vector3
+  /** World-space distance the pointer moved along the drag plane since the previous drag event */
+  movement: THREE.Vector3
+  /** The plane pointer movement is projected on, changing it in onDragStart applies to the rest of the drag */
+  plane: THREE.Plane
+  /** Whether the drag ended because the pointer was canceled or lost its capture */
+  canceled: boolean
+}
 export type DomEvent = PointerEvent | MouseEvent | WheelEvent
 
 export type Events = {
@@ -49,6 +96,8 @@ export type Events = {
   onPointerMove: EventListener
   onPointerCancel: EventListener
   onLostPointerCapture: EventListener
+  onKeyDown: EventListener
+  onKeyUp: EventListener
 }
 
 export type EventHandlers = {
@@ -62,12 +111,27 @@ export type EventHandlers = {
   onPointerEnter?: (event: ThreeEvent<PointerEvent>) => void
   onPointerLeave?: (event: ThreeEvent<PointerEvent>) => void
   onPointerMove?: (event: ThreeEvent<PointerEvent>) => void
+  onPointerEnterDelayed?: (event: ThreeEvent<PointerEvent>) => void
   onPointerMissed?: (event: MouseEvent) => void
   onPointerCancel?: (event: ThreeEvent<PointerEvent>) => void
   onWheel?: (event: ThreeEvent<WheelEvent>) => void
+  onKeyDown?: (event: ThreeKeyboardEvent) => void
+  onKeyUp?: (event: ThreeKeyboardEvent) => void
+  onFocus?: (event: ThreeFocusEvent) => void
+  onBlur?: (event: ThreeFocusEvent) => void
+  onDragStart?: (event: ThreeDragEvent) => void
+  onDrag?: (event: ThreeDragEvent) => void
+  onDragEnd?: (event: ThreeDragEvent) => void
+  onPinch?: (event: ThreeGestureEvent) => void
+  onRotateGesture?: (event: ThreeGestureEvent) => void
+  onPan?: (event: ThreeGestureEvent) => void
 }
 
 export type FilterFunction = (items: THREE.Intersection[], state: RootState) => THREE.Intersection[]
+export type IntersectFunction = ((object: THREE.Object3D, state: RootState) => THREE.Intersection[]) & {
+  /** Releases GPU resources the backend holds, called when the root unmounts */
+  dispose?: () => void
+}
 export type ComputeFunction = (event: DomEvent, root: RootState, previous?: RootState) => void
 
 export interface EventManager<TTarget> {
@@ -79,6 +143,42 @@ export interface EventManager<TTarget> {
   compute?: ComputeFunction
   /** The filter can re-order or re-structure the intersections  */
   filter?: FilterFunction
+  /** Raycasts meshes against a bounding volume hierarchy of their geometry, which is cached until its attributes
+   *  change. Meshes then only report their closest intersection. Default: false
+   */
+  bvh?: boolean
+  /** Replaces raycasting with another intersection backend, e.g. GPU picking with `createPicking()` */
+  intersect?: IntersectFunction
+  /** Time in ms the pointer has to rest on an object before onPointerEnterDelayed fires. Default: 500 */
+  hoverDelay?: number
+  /** Distance in pixels the pointer has to travel while pressed before a drag starts. Default: 3 */
+  dragThreshold?: number
+  /** Change a gesture has to make before onPinch (as a factor), onRotateGesture (in radians) or onPan (in pixels)
+   *  is called again. Default: { scale: 0.01, rotation: 0.01, translation: 1 }
+   */
+  gestureThreshold?: { scale?: number; rotation?: number; translation?: number }
+  /** Plane drags are projected on. Default: a plane facing the camera through the point that was pressed */
+  dragPlane?: THREE.Plane
+  /** Coalesces pointermoves into one raycast per frame with the latest event (web only). Other events handle a
+   *  pending move first, so they keep their order. Default: false
+   */
+  coalesce?: boolean
+  /** Locks the pointer to the connected target when it is clicked, the click itself is not dispatched. While the
+   *  pointer is locked events are raycast from the center of the screen, like a crosshair (web only). Default: false
+   */
+  pointerLock?: boolean
+  /** Records a trace of every pointer event into `traces`, can be passed the amount of events to keep. Default: 50 */
+  debug?: boolean | { size?: number }
+  /** Rolling history of traced events while debug is on, oldest first. Updated once per frame */
+  traces?: EventTrace[]
+  /** Whether the pointer is locked to the connected target */
+  locked?: boolean
+  /** movementX/Y of the pointer while it is locked, accumulated in pixels since the previous frame */
+  movement?: THREE.Vector2
+  /** Requests a pointer lock on the connected target */
+  lock?: () => void
+  /** Exits the pointer lock, if the connected target holds it */
+  unlock?: () => void
   /** The target node the event layer is tied to */
   connected?: TTarget
   /** All the pointer event handlers through which the host forwards native events */
@@ -98,8 +198,60 @@ export interface PointerCaptureTarget {
   target: Element
 }
 
+export interface GestureState {
+  /** The object was pressed here */
+  intersection: Intersection
+  /** Pointers that pressed the object, by id, in canvas pixels */
+  pointers: Map<number, THREE.Vector2>
+  /** Center, distance and angle of the first two pointers at the previous gesture event */
+  previous: { center: THREE.Vector2; distance: number; angle: number } | null
+  scale: number
+  rotation: number
+  translation: THREE.Vector2
+  /** Scale, rotation and translation at the previous call of each handler */
+  dispatched: Record<GestureHandler, GestureSnapshot>
+}
+
+type GestureHandler = 'onPinch' | 'onRotateGesture' | 'onPan'
+type GestureSnapshot = Pick<GestureState, 'scale' | 'rotation' | 'translation'>
+
+export interface EventTrace {
+  /** Handler of the event manager, e.g. onClick */
+  name: string
+  /** Time the event was handled at */
+  timestamp: number
+  /** Objects with handlers that were tested */
+  candidates: THREE.Object3D[]
+  /** Every hit of the intersection backend, before anything was removed */
+  intersections: THREE.Intersection[]
+  /** Hits that were removed by the pointerEvents prop, raycast layers, the event manager's filter or as duplicates */
+  filtered: THREE.Intersection[]
+  /** Rays of the roots the event was raycast in */
+  rays: THREE.Ray[]
+  /** Handlers that were called, in order */
+  handlers: { eventObject: THREE.Object3D; name: string }[]
+  /** The object whose handler stopped propagation */
+  stoppedAt: THREE.Object3D | null
+}
+
+export interface DragState {
+  /** The pressed object and its ancestors that have drag handlers */
+  intersections: Intersection[]
+  /** Pointer coordinates the drag was pressed at */
+  initialClick: [x: number, y: number]
+  /** Ray of the pointerdown, drags are measured from where it meets the plane */
+  ray: THREE.Ray
+  plane: THREE.Plane
+  origin: THREE.Vector3
+  /** Last point along the plane */
+  point: THREE.Vector3
+  /** Whether the pointer has moved past the threshold */
+  dragging: boolean
+}
+
 function makeId(event: Intersection) {
-  return (event.eventObject || event.object).uuid + '/' + event.index + event.instanceId
+  // Instances and batches of one mesh are hovered individually
+  return (event.eventObject || event.object).uuid + '/' + event.index + '/' + event.instanceId + '/' + event.batchId
 }
 
 // https://github.com/facebook/react/tree/main/packages/react-reconciler#getcurrenteventpriority
@@ -118,6 +270,8 @@ export function getEventPriority() {
     case 'pointercancel':
     case 'pointerdown':
     case 'pointerup':
+    case 'keydown':
+    case 'keyup':
       return DiscreteEventPriority
     case 'pointermove':
     case 'pointerout':
@@ -147,40 +301,153 @@ function releaseInternalPointerCapture(
     // If this was the last capturing object for this pointer
     if (captures.size === 0) {
       capturedMap.delete(pointerId)
-      captureData.target.releasePointerCapture(pointerId)
+      // Touches in react-native don't target elements
+      captureData.target.releasePointerCapture?.(pointerId)
     }
   }
 }
 
+/** Copies the props of a host event, leaving out its functions */
+function getEventProps(event: Event) {
+  const props: any = {}
+  // This iterates over the event's properties including the inherited ones. Native PointerEvents have most of their props as getters which are inherited, but polyfilled PointerEvents have them all as their own properties (i.e. not inherited). We can't use Object.keys() or Object.entries() as they only return "own" properties; nor Object.getPrototypeOf(event) as that *doesn't* return "own" properties, only inherited ones.
+  for (let prop in event) {
+    let property = event[prop as keyof Event]
+    // Only copy over atomics, leave functions alone as these should be
+    // called as event.nativeEvent.fn()
+    if (typeof property !== 'function') props[prop] = property
+  }
+  return props
+}
+
+/**
+ * Calls the handlers of an object and its parents, until one of them stops propagation.
+ */
+function dispatchEvent(
+  object: THREE.Object3D,
+  name: 'onKeyDown' | 'onKeyUp' | 'onFocus' | 'onBlur',
+  nativeEvent: Event | null,
+  props: object = {},
+) {
+  const localState = { stopped: false }
+  let eventObject: THREE.Object3D | null = object
+  while (eventObject) {
+    const handler = (eventObject as unknown as Instance).__r3f?.handlers[name] as ((event: any) => void) | undefined
+    if (handler) {
+      const event = {
+        ...(nativeEvent && getEventProps(nativeEvent)),
+        ...props,
+        object,
+        eventObject,
+        nativeEvent,
+        stopped: localState.stopped,
+        stopPropagation() {
+          event.stopped = localState.stopped = true
+        },
+      }
+      handler(event)
+      if (localState.stopped) break
+    }
+    eventObject = eventObject.parent
+  }
+}
+
+type PointerTarget = THREE.Object3D & { pointerEvents?: 'auto' | 'none' | 'children' }
+
+/** Pointer and raycaster that events are reported with instead of the root's, when a hit didn't come from the pointer */
+type HitSource = { raycaster: THREE.Raycaster; pointer: THREE.Vector2 }
+
+/**
+ * Whether hits on an object count. An object's own pointerEvents decide, otherwise the nearest ancestor's:
+ * "none" excludes it, while "children" only excludes the ancestor itself.
+ */
+function isPointerTarget(object: THREE.Object3D) {
+  const mode = (object as PointerTarget).pointerEvents
+  if (mode) return mode === 'auto'
+  for (let parent = object.parent; parent; parent = parent.parent) {
+    const inherited = (parent as PointerTarget).pointerEvents
+    if (inherited) return inherited !== 'none'
+  }
+  return true
+}
+
+type Focusable = THREE.Object3D & { tabIndex?: number }
+
+/** Returns the closest object, starting with the given one, that can receive focus */
+function findFocusable(object: THREE.Object3D | null) {
+  while (object && (object as Focusable).tabIndex === undefined) object = object.parent
+  return object
+}
+
+/**
+ * Returns the visible objects that take part in sequential focus navigation. Objects with a positive
+ * tabIndex come first in ascending order, followed by those with a tabIndex of 0 in scene order.
+ */
+function getTabOrder(scene: THREE.Object3D) {
+  const objects: Focusable[] = []
+  scene.traverseVisible((object) => {
+    if ((object as Focusable).tabIndex! >= 0) objects.push(object)
+  })
+  const getOrder = (object: Focusable) => object.tabIndex || Number.MAX_SAFE_INTEGER
+  return objects.sort((a, b) => getOrder(a) - getOrder(b))
+}
+
+/**
+ * Moves focus to an object, or clears it, calling onBlur on the previously focused object and onFocus on the new one.
+ */
+export function changeFocus(internal: InternalState, object: THREE.Object3D | null, nativeEvent: Event | null = null) {
+  const previous = internal.focused
+  if (previous === object) return
+  internal.focused = object
+  if (previous) dispatchEvent(previous, 'onBlur', nativeEvent, { relatedObject: object })
+  if (object) dispatchEvent(object, 'onFocus', nativeEvent, { relatedObject: previous })
+}
+
+/** Stops waiting for the pointer to dwell on a hovered object */
+function cancelDwell(internal: InternalState, id: string) {
+  const timeout = internal.dwells.get(id)
+  if (timeout === undefined) return
+  clearTimeout(timeout)
+  internal.dwells.delete(id)
+}
+
 export function removeInteractivity(store: UseBoundStore<RootState>, object: THREE.Object3D) {
   const { internal } = store.getState()
   // Removes every trace of an object from the data store
+  if (internal.focused === object) internal.focused = null
   internal.interaction = internal.interaction.filter((o) => o !== object)
   internal.initialHits = internal.initialHits.filter((o) => o !== object)
   internal.hovered.forEach((value, key) => {
     if (value.eventObject === object || value.object === object) {
       // Clear out intersects, they are outdated by now
       internal.hovered.delete(key)
+      cancelDwell(internal, key)
     }
   })
   internal.capturedMap.forEach((captures, pointerId) => {
     releaseInternalPointerCapture(internal.capturedMap, object, captures, pointerId)
   })
+  internal.drags.forEach((drag, pointerId) => {
+    if (drag.intersections.some((hit) => hit.eventObject === object)) internal.drags.delete(pointerId)
+  })
+  internal.gestures.delete(object)
 }
 
 export function createEvents(store: UseBoundStore<RootState>) {
+  // Trace of the event that is being handled while debugging
+  let trace: EventTrace | null = null
+
   /** Calculates delta */
-  function calculateDistance(event: DomEvent) {
-    const { internal } = store.getState()
-    const dx = event.offsetX - internal.initialClick[0]
-    const dy = event.offsetY - internal.initialClick[1]
+  function calculateDistance(event: DomEvent, initialClick = store.getState().internal.initialClick) {
+    const dx = event.offsetX - initialClick[0]
+    const dy = event.offsetY - initialClick[1]
     return Math.round(Math.sqrt(dx * dx + dy * dy))
   }
 
   /** Returns true if an instance has a valid pointer-event registered, this excludes scroll, clicks etc */
   function filterPointerEvents(objects: THREE.Object3D[]) {
     return objects.filter((obj) =>
-      ['Move', 'Over', 'Enter', 'Out', 'Leave'].some(
+      ['Move', 'Over', 'Enter', 'Out', 'Leave', 'EnterDelayed'].some(
         (name) => (obj as unknown as Instance).__r3f?.handlers[('onPointer' + name) as keyof EventHandlers],
       ),
     )
@@ -204,6 +471,7 @@ export function createEvents(store: UseBoundStore<RootState>) {
       // Make sure root-level pointer and ray are set up
       state.events.compute?.(event, state)
     }
+    if (trace) trace.candidates = [...eventsObjects]
 
     function handleRaycast(obj: THREE.Object3D) {
       const state = getRootState(obj)
@@ -218,13 +486,19 @@ export function createEvents(store: UseBoundStore<RootState>) {
       }
 
       // Intersect object by object
-      return state.raycaster.camera ? state.raycaster.intersectObject(obj, true) : []
+      if (!state.raycaster.camera) return []
+      if (state.events.intersect) return state.events.intersect(obj, state)
+      return state.events.bvh ? intersectObjectBVH(state.raycaster, obj) : state.raycaster.intersectObject(obj, true)
     }
 
     // Collect events
-    let hits: THREE.Intersection<THREE.Object3D>[] = eventsObjects
-      // Intersect objects
-      .flatMap(handleRaycast)
+    const raycasts = eventsObjects.flatMap(handleRaycast)
+    let hits: THREE.Intersection<THREE.Object3D>[] = raycasts
+      // Drop objects that let the pointer through, or that aren't on the raycast layers of their root
+      .filter((item) => {
+        const layers = (getRootState(item.object) ?? state).raycaster.layers
+        return item.object.layers.test(layers) && isPointerTarget(item.object)
+      })
       // Sort by event priority and distance
       .sort((a, b) => {
         const aState = getRootState(a.object)
@@ -244,6 +518,13 @@ export function createEvents(store: UseBoundStore<RootState>) {
     // Allow custom userland intersect sort order, this likely only makes sense on the root filter
     if (state.events.filter) hits = state.events.filter(hits, state)
 
+    if (trace) {
+      trace.intersections = raycasts
+      trace.filtered = raycasts.filter((item) => !hits.includes(item))
+      const roots = new Set(eventsObjects.map((object) => getRootState(object)))
+      roots.forEach((root) => root?.raycaster.camera && trace!.rays.push(root.raycaster.ray.clone()))
+    }
+
     // Bubble up the events, find the event source (eventObject)
     for (const hit of hits) {
       let eventObject: THREE.Object3D | null = hit.object
@@ -269,6 +550,7 @@ export function createEvents(store: UseBoundStore<RootState>) {
     event: DomEvent,
     delta: number,
     callback: (event: ThreeEvent<DomEvent>) => void,
+    source?: HitSource,
   ) {
     const rootState = store.getState()
 
@@ -277,7 +559,8 @@ export function createEvents(store: UseBoundStore<RootState>) {
       const localState = { stopped: false }
       for (const hit of intersections) {
         const state = getRootState(hit.object) || rootState
-        const { raycaster, pointer, camera, internal } = state
+        const { camera, internal } = state
+        const { raycaster, pointer } = source ?? state
         const unprojectedPoint = new THREE.Vector3(pointer.x, pointer.y, 0).unproject(camera)
         const hasPointerCapture = (id: number) => internal.capturedMap.get(id)?.has(hit.eventObject) ?? false
 
@@ -305,14 +588,7 @@ export function createEvents(store: UseBoundStore<RootState>) {
         }
 
         // Add native event props
-        let extractEventProps: any = {}
-        // This iterates over the event's properties including the inherited ones. Native PointerEvents have most of their props as getters which are inherited, but polyfilled PointerEvents have them all as their own properties (i.e. not inherited). We can't use Object.keys() or Object.entries() as they only return "own" properties; nor Object.getPrototypeOf(event) as that *doesn't* return "own" properties, only inherited ones.
-        for (let prop in event) {
-          let property = event[prop as keyof DomEvent]
-          // Only copy over atomics, leave functions alone as these should be
-          // called as event.nativeEvent.fn()
-          if (typeof property !== 'function') extractEventProps[prop] = property
-        }
+        const extractEventProps = getEventProps(event)
 
         let raycastEvent: ThreeEvent<DomEvent> = {
           ...hit,
@@ -359,7 +635,10 @@ export function createEvents(store: UseBoundStore<RootState>) {
         // Call subscribers
         callback(raycastEvent)
         // Event bubbling may be interrupted by stopPropagation
-        if (localState.stopped === true) break
+        if (localState.stopped === true) {
+          if (trace && !trace.stoppedAt) trace.stoppedAt = hit.eventObject
+          break
+        }
       }
     }
     return intersections
@@ -376,26 +655,307 @@ export function createEvents(store: UseBoundStore<RootState>) {
           (hit) =>
             hit.object === hoveredObj.object &&
             hit.index === hoveredObj.index &&
-            hit.instanceId === hoveredObj.instanceId,
+            hit.instanceId === hoveredObj.instanceId &&
+            (hit as Intersection).batchId === hoveredObj.batchId,
         )
       ) {
         const eventObject = hoveredObj.eventObject
         const instance = (eventObject as unknown as Instance).__r3f
         const handlers = instance?.handlers
         internal.hovered.delete(makeId(hoveredObj))
+        cancelDwell(internal, makeId(hoveredObj))
         if (instance?.eventCount) {
           // Clear out intersects, they are outdated by now
           const data = { ...hoveredObj, intersections }
+          traceHandler(eventObject, 'onPointerOut')
           handlers.onPointerOut?.(data as ThreeEvent<PointerEvent>)
+          traceHandler(eventObject, 'onPointerLeave')
           handlers.onPointerLeave?.(data as ThreeEvent<PointerEvent>)
         }
       }
     }
   }
 
+  const hasDragHandlers = (object: THREE.Object3D) => {
+    const handlers = (object as unknown as Instance).__r3f?.handlers
+    return !!(handlers?.onDragStart || handlers?.onDrag || handlers?.onDragEnd)
+  }
+
+  /** Calls drag handlers of the dragged object and its ancestors */
+  function handleDrag(
+    name: 'onDragStart' | 'onDrag' | 'onDragEnd',
+    drag: DragState,
+    event: PointerEvent,
+    movement: THREE.Vector3,
+    canceled = false,
+  ) {
+    const offset = drag.point.clone().sub(drag.origin)
+    handleIntersects(drag.intersections, event, calculateDistance(event, drag.initialClick), (data) => {
+      const handler = (data.eventObject as unknown as Instance).__r3f?.handlers[name]
+      traceHandler(data.eventObject, name)
+      handler?.(Object.assign(data as ThreeEvent<PointerEvent>, { offset, movement, plane: drag.plane, canceled }))
+    })
+  }
+
+  /** Remembers the pressed object if it, or one of its ancestors, can be dragged */
+  function prepareDrag(event: PointerEvent, hits: Intersection[]) {
+    const { internal, events } = store.getState()
+    const hit = hits.find((hit) => hasDragHandlers(hit.eventObject))
+    if (!hit) return
+
+    const state = getRootState(hit.object) ?? store.getState()
+    const plane = events.dragPlane
+      ? events.dragPlane.clone()
+      : new THREE.Plane().setFromNormalAndCoplanarPoint(
+          state.camera.getWorldDirection(new THREE.Vector3()).negate(),
+          hit.point,
+        )
+    const ray = state.raycaster.ray.clone()
+    const origin = ray.intersectPlane(plane, new THREE.Vector3()) ?? hit.point.clone()
+
+    internal.drags.set(event.pointerId, {
+      intersections: hits.filter(
+        (item) => item.object === hit.object && item.instanceId === hit.instanceId && hasDragHandlers(item.eventObject),
+      ),
+      initialClick: [event.offsetX, event.offsetY],
+      ray,
+      plane,
+      origin,
+      point: origin.clone(),
+      dragging: false,
+    })
+  }
+
+  /** Starts a drag once the pointer moved past the threshold, captures the pointer and follows it along the plane */
+  function moveDrag(event: PointerEvent) {
+    const { internal, events } = store.getState()
+    const drag = internal.drags.get(event.pointerId)
+    if (!drag) return
+
+    if (!drag.dragging) {
+      if (calculateDistance(event, drag.initialClick) < (events.dragThreshold ?? 3)) return
+      drag.dragging = true
+      // Capture the pointer so the dragged objects keep receiving it wherever it goes
+      const captures = internal.capturedMap.get(event.pointerId) ?? new Map()
+      for (const hit of drag.intersections) {
+        captures.set(hit.eventObject, { intersection: hit, target: event.target as Element })
+      }
+      internal.capturedMap.set(event.pointerId, captures)
+      ;(event.target as Element).setPointerCapture?.(event.pointerId)
+
+      handleDrag('onDragStart', drag, event, new THREE.Vector3())
+      // Handlers may have changed the plane
+      drag.ray.intersectPlane(drag.plane, drag.origin)
+      drag.point.copy(drag.origin)
+    }
+
+    const state = getRootState(drag.intersections[0].eventObject) ?? store.getState()
+    state.events.compute?.(event, state, state.previousRoot?.getState())
+    const point = state.raycaster.ray.intersectPlane(drag.plane, new THREE.Vector3())
+    if (!point) return
+    const movement = point.clone().sub(drag.point)
+    drag.point.copy(point)
+    handleDrag('onDrag', drag, event, movement)
+  }
+
+  /** Finishes a drag of a pointer, and releases the capture it took */
+  function endDrag(event: PointerEvent, canceled: boolean, pointerId = event.pointerId) {
+    const { internal } = store.getState()
+    const drag = internal.drags.get(pointerId)
+    if (!drag) return
+    internal.drags.delete(pointerId)
+    if (!drag.dragging) return
+
+    // The click that follows the release belongs to the drag, it mustn't click the pressed objects
+    internal.initialHits = []
+    handleDrag('onDragEnd', drag, event, new THREE.Vector3(), canceled)
+    const captures = internal.capturedMap.get(pointerId)
+    if (captures) {
+      for (const hit of drag.intersections) {
+        releaseInternalPointerCapture(internal.capturedMap, hit.eventObject, captures, pointerId)
+      }
+    }
+  }
+
+  const gestureHandlers: GestureHandler[] = ['onPinch', 'onRotateGesture', 'onPan']
+
+  const hasGestureHandlers = (object: THREE.Object3D) => {
+    const handlers = (object as unknown as Instance).__r3f?.handlers
+    return gestureHandlers.some((name) => handlers?.[name])
+  }
+
+  const createSnapshot = (): GestureSnapshot => ({ scale: 1, rotation: 0, translation: new THREE.Vector2() })
+  const createSnapshots = (): GestureState['dispatched'] => ({
+    onPinch: createSnapshot(),
+    onRotateGesture: createSnapshot(),
+    onPan: createSnapshot(),
+  })
+
+  /** Measures the first two pointers of a gesture */
+  function measureGesture({ pointers }: GestureState) {
+    const [a, b] = pointers.values()
+    return {
+      center: a.clone().add(b).multiplyScalar(0.5),
+      distance: a.distanceTo(b),
+      angle: Math.atan2(b.y - a.y, b.x - a.x),
+    }
+  }
+
+  /** Adds a pointer to the gestures of every pressed object that handles them */
+  function pressGesture(event: PointerEvent, hits: Intersection[]) {
+    const { internal } = store.getState()
+    for (const hit of hits) {
+      if (!hasGestureHandlers(hit.eventObject)) continue
+      let gesture = internal.gestures.get(hit.eventObject)
+      if (!gesture) {
+        gesture = {
+          intersection: hit,
+          pointers: new Map(),
+          previous: null,
+          scale: 1,
+          rotation: 0,
+          translation: new THREE.Vector2(),
+          dispatched: createSnapshots(),
+        }
+        internal.gestures.set(hit.eventObject, gesture)
+      }
+      gesture.pointers.set(event.pointerId, new THREE.Vector2(event.offsetX, event.offsetY))
+
+      if (gesture.pointers.size >= 2) {
+        // Continue from the current pointers, a gesture takes over drags of the same object
+        gesture.previous = measureGesture(gesture)
+        for (const pointerId of gesture.pointers.keys()) {
+          const drag = internal.drags.get(pointerId)
+          if (drag?.intersections.some((item) => item.eventObject === hit.eventObject)) endDrag(event, true, pointerId)
+        }
+      }
+    }
+  }
+
+  /** Follows a pointer of ongoing gestures and calls the handlers whose value changed past the threshold */
+  function moveGesture(event: PointerEvent) {
+    const { internal, events } = store.getState()
+    const { scale = 0.01, rotation = 0.01, translation = 1 } = events.gestureThreshold ?? {}
+    internal.gestures.forEach((gesture) => {
+      const position = gesture.pointers.get(event.pointerId)
+      if (!position) return
+      position.set(event.offsetX, event.offsetY)
+      if (!gesture.previous) return
+
+      const current = measureGesture(gesture)
+      const scaleDelta = gesture.previous.distance ? current.distance / gesture.previous.distance : 1
+      // Wrap rotation into [-PI, PI] so crossing the x-axis doesn't flip it
+      const angle = current.angle - gesture.previous.angle
+      const rotationDelta = Math.atan2(Math.sin(angle), Math.cos(angle))
+      const translationDelta = current.center.clone().sub(gesture.previous.center)
+      gesture.scale *= scaleDelta
+      gesture.rotation += rotationDelta
+      gesture.translation.add(translationDelta)
+      gesture.previous = current
+
+      const { dispatched } = gesture
+      const handlers: EventHandlers = (gesture.intersection.eventObject as unknown as Instance).__r3f?.handlers ?? {}
+      const changed: Record<GestureHandler, boolean> = {
+        onPinch: Math.abs(gesture.scale / dispatched.onPinch.scale - 1) >= scale,
+        onRotateGesture: Math.abs(gesture.rotation - dispatched.onRotateGesture.rotation) >= rotation,
+        onPan: gesture.translation.distanceTo(dispatched.onPan.translation) >= translation,
+      }
+      const names = gestureHandlers.filter((name) => handlers[name] && changed[name])
+      if (!names.length) return
+
+      handleIntersects([gesture.intersection], event, 0, (data) => {
+        const gestureEvent = Object.assign(data as ThreeEvent<PointerEvent>, {
+          pointers: Array.from(gesture.pointers.values(), (pointer) => pointer.clone()),
+          scale: gesture.scale,
+          rotation: gesture.rotation,
+          translation: gesture.translation.clone(),
+        })
+        for (const name of names) {
+          // Deltas are measured since the handler was called last, so that skipped moves add up
+          const previous = dispatched[name]
+          dispatched[name] = {
+            scale: gesture.scale,
+            rotation: gesture.rotation,
+            translation: gesture.translation.clone(),
+          }
+          traceHandler(data.eventObject, name)
+          handlers[name]!(
+            Object.assign(gestureEvent, {
+              scaleDelta: gesture.scale / previous.scale,
+              rotationDelta: gesture.rotation - previous.rotation,
+              translationDelta: gesture.translation.clone().sub(previous.translation),
+            }),
+          )
+        }
+      })
+    })
+  }
+
+  /** Removes a pointer from gestures, a gesture ends once less than two pointers remain */
+  function releaseGesture(event: PointerEvent) {
+    const { internal } = store.getState()
+    internal.gestures.forEach((gesture, object) => {
+      if (!gesture.pointers.delete(event.pointerId)) return
+      if (!gesture.pointers.size) internal.gestures.delete(object)
+      else if (gesture.pointers.size < 2) {
+        gesture.previous = null
+        gesture.scale = 1
+        gesture.rotation = 0
+        gesture.translation.set(0, 0)
+        gesture.dispatched = createSnapshots()
+      } else gesture.previous = measureGesture(gesture)
+    })
+  }
+
+  // Traces that are added to the rolling history with the next frame, so that tracing doesn't set state per event
+  let pendingTraces: EventTrace[] = []
+
+  function startTrace(name: string) {
+    trace = {
+      name,
+      timestamp: performance.now(),
+      candidates: [],
+      intersections: [],
+      filtered: [],
+      rays: [],
+      handlers: [],
+      stoppedAt: null,
+    }
+  }
+
+  /** Queues the trace of the event that was just handled for the rolling history */
+  function endTrace() {
+    if (!pendingTraces.length) requestAnimationFrame(flushTraces)
+    pendingTraces.push(trace!)
+    trace = null
+  }
+
+  function flushTraces() {
+    const { events, setEvents } = store.getState()
+    const size = (typeof events.debug === 'object' && events.debug.size) || 50
+    setEvents({ traces: [...(events.traces ?? []), ...pendingTraces].slice(-size) })
+    pendingTraces = []
+  }
+
+  /** Traces a handler of the event manager that doesn't raycast, while debugging */
+  function traced<T extends unknown[]>(name: string, callback: (...args: T) => void) {
+    return (...args: T) => {
+      if (store.getState().events.debug) startTrace(name)
+      callback(...args)
+      if (trace) endTrace()
+    }
+  }
+
+  /** Notes a handler of an object that is about to be called */
+  function traceHandler(eventObject: THREE.Object3D, name: string) {
+    const handlers = (eventObject as unknown as Instance).__r3f?.handlers
+    if (trace && handlers?.[name as keyof EventHandlers]) trace.handlers.push({ eventObject, name })
+  }
+
   function pointerMissed(event: MouseEvent, objects: THREE.Object3D[]) {
     for (let i = 0; i < objects.length; i++) {
       const instance = (objects[i] as unknown as Instance).__r3f
+      traceHandler(objects[i], 'onPointerMissed')
       instance?.handlers.onPointerMissed?.(event)
     }
   }
@@ -404,8 +964,15 @@ export function createEvents(store: UseBoundStore<RootState>) {
     // Deal with cancelation
     switch (name) {
       case 'onPointerLeave':
+        return traced(name, () => cancelPointer([]))
       case 'onPointerCancel':
-        return () => cancelPointer([])
+        return traced(name, (event: DomEvent) => {
+          if ('pointerId' in event) {
+            endDrag(event, true)
+            releaseGesture(event)
+          }
+          cancelPointer([])
+        })
       case 'onLostPointerCapture':
         return (event: DomEvent) => {
           const { internal } = store.getState()
@@ -414,20 +981,24 @@ export function createEvents(store: UseBoundStore<RootState>) {
             // object that's getting removed. We call it on the next frame because onLostPointerCapture
             // fires before onPointerUp. Otherwise pointerUp would never be called if the event didn't
             // happen in the object it originated from, leaving components in a in-between state.
-            requestAnimationFrame(() => {
-              // Only release if pointer-up didn't do it already
-              if (internal.capturedMap.has(event.pointerId)) {
-                internal.capturedMap.delete(event.pointerId)
-                cancelPointer([])
-              }
-            })
+            requestAnimationFrame(
+              traced(name, () => {
+                // Only release if pointer-up didn't do it already
+                if (internal.capturedMap.has(event.pointerId)) {
+                  endDrag(event, true)
+                  internal.capturedMap.delete(event.pointerId)
+                  cancelPointer([])
+                }
+              }),
+            )
           }
         }
     }
 
     // Any other pointer goes here ...
     return function handleEvent(event: DomEvent) {
-      const { onPointerMissed, internal } = store.getState()
+      const { onPointerMissed, internal, events } = store.getState()
+      if (events.debug) startTrace(name)
 
       // prepareRay(event)
       internal.lastEvent.current = event
@@ -482,21 +1053,38 @@ export function createEvents(store: UseBoundStore<RootState>) {
 
         if (isPointerMove) {
           // Move event ...
-          if (handlers.onPointerOver || handlers.onPointerEnter || handlers.onPointerOut || handlers.onPointerLeave) {
+          if (
+            handlers.onPointerOver ||
+            handlers.onPointerEnter ||
+            handlers.onPointerOut ||
+            handlers.onPointerLeave ||
+            handlers.onPointerEnterDelayed
+          ) {
             // When enter or out is present take care of hover-state
             const id = makeId(data)
             const hoveredItem = internal.hovered.get(id)
             if (!hoveredItem) {
               // If the object wasn't previously hovered, book it and call its handler
               internal.hovered.set(id, data)
+              traceHandler(eventObject, 'onPointerOver')
               handlers.onPointerOver?.(data as ThreeEvent<PointerEvent>)
+              traceHandler(eventObject, 'onPointerEnter')
               handlers.onPointerEnter?.(data as ThreeEvent<PointerEvent>)
+              // Wait for the pointer to dwell, leaving the object cancels this in cancelPointer
+              if (handlers.onPointerEnterDelayed) {
+                const timeout = setTimeout(() => {
+                  internal.dwells.delete(id)
+                  instance.handlers.onPointerEnterDelayed?.(data as ThreeEvent<PointerEvent>)
+                }, store.getState().events.hoverDelay ?? 500)
+                internal.dwells.set(id, timeout)
+              }
             } else if (hoveredItem.stopped) {
               // If the object was previously hovered and stopped, we shouldn't allow other items to proceed
               data.stopPropagation()
             }
           }
           // Call mouse move
+          traceHandler(eventObject, 'onPointerMove')
           handlers.onPointerMove?.(data as ThreeEvent<PointerEvent>)
         } else {
           // All other events ...
@@ -511,6 +1099,7 @@ export function createEvents(store: UseBoundStore<RootState>) {
                 internal.interaction.filter((object) => !internal.initialHits.includes(object)),
               )
               // Now call the handler
+              traceHandler(eventObject, name)
               handler(data as ThreeEvent<PointerEvent>)
             }
           } else {
@@ -526,8 +1115,68 @@ export function createEvents(store: UseBoundStore<RootState>) {
       }
 
       handleIntersects(hits, event, delta, onIntersect)
+
+      // Pressing on an object focuses it, or its closest focusable parent, pressing anywhere else blurs
+      if (name === 'onPointerDown') changeFocus(internal, findFocusable(hits[0]?.object ?? null), event)
+
+      // Drags and gestures follow the pointers that pressed them, regardless of what they hit
+      if ('pointerId' in event) {
+        if (name === 'onPointerDown') {
+          prepareDrag(event, hits)
+          pressGesture(event, hits)
+        } else if (isPointerMove) {
+          moveDrag(event)
+          moveGesture(event)
+        } else if (name === 'onPointerUp') {
+          endDrag(event, false)
+          releaseGesture(event)
+        }
+      }
+
+      if (trace) endTrace()
+    }
+  }
+
+  function handleKey(name: 'onKeyDown' | 'onKeyUp') {
+    return function handleEvent(event: KeyboardEvent) {
+      const { scene, internal } = store.getState()
+
+      // Key events go to the focused object and bubble up from there
+      if (internal.focused) dispatchEvent(internal.focused, name, event)
+
+      // Tab moves focus along the tab order unless a handler prevented it. Past either end focus is
+      // cleared and the browser moves on to the next element of the page. Focusable elements within
+      // the event source, like the accessibility mirror, are left to the browser
+      if (
+        name === 'onKeyDown' &&
+        event.key === 'Tab' &&
+        !event.defaultPrevented &&
+        event.target === event.currentTarget
+      ) {
+        const order = getTabOrder(scene)
+        const index = internal.focused ? order.indexOf(internal.focused) : -1
+        const next =
+          index === -1 ? order[event.shiftKey ? order.length - 1 : 0] : order[index + (event.shiftKey ? -1 : 1)]
+        changeFocus(internal, next ?? null, event)
+        if (next) event.preventDefault()
+      }
+    }
+  }
+
+  /** Delivers an event to the object of a hit and its ancestors without raycasting, e.g. for assistive technologies */
+  function dispatchHit(name: keyof EventHandlers, hit: THREE.Intersection, event: DomEvent, source?: HitSource) {
+    const intersections: Intersection[] = []
+    let eventObject: THREE.Object3D | null = hit.object
+    while (eventObject) {
+      if ((eventObject as unknown as Instance).__r3f?.eventCount) intersections.push({ ...hit, eventObject })
+      eventObject = eventObject.parent
+    }
+    const onIntersect = (data: ThreeEvent<DomEvent>) => {
+      const handler = (data.eventObject as unknown as Instance).__r3f?.handlers[name] as (event: any) => void
+      handler?.(data)
     }
+    handleIntersects(intersections, event, 0, onIntersect, source)
   }
 
-  return { handlePointer }
+  return { handlePointer, handleKey, dispatchHit }
 }
@@ -2,9 +2,22 @@ import * as THREE from 'three'
 import * as React from 'react'
 import { StateSelector, EqualityChecker } from 'zustand'
 import { suspend, preload, clear } from 'suspend-react'
-import { context, RootState, RenderCallback } from './store'
-import { buildGraph, ObjectMap, is, useMutableCallback, useIsomorphicLayoutEffect } from './utils'
+import { useFiber } from 'its-fine'
+import { context, RootState, RenderCallback, FrameOptions } from './store'
+import {
+  buildGraph,
+  ObjectMap,
+  is,
+  useMutableCallback,
+  useIsomorphicLayoutEffect,
+  getOwnerName,
+  getComponentStack,
+  pendingLoads,
+} from './utils'
 import { LocalState, Instance } from './renderer'
+import { EventHandlers, EventTrace, ThreeEvent } from './events'
+import { getResourceStats, ResourceStats, subscribeResources } from './resources'
+import { collectLoaded, isDetectingLeaks, trackCreation, trackUnmount } from './leaks'
 
 export interface Loader<T> extends THREE.Loader {
   load(
@@ -25,6 +38,14 @@ export type LoaderResult<T> = T extends any[] ? Loader<T[number]> : Loader<T>
 export type Extensions<T extends { prototype: LoaderProto<any> }> = (loader: T['prototype']) => void
 export type ConditionalType<Child, Parent, Truthy, Falsy> = Child extends Parent ? Truthy : Falsy
 export type BranchingReturn<T, Parent, Coerced> = ConditionalType<T, Parent, Coerced, T>
+export type PerformanceCallbacks = {
+  /** Called when adaptive quality was raised */
+  onIncline?: (state: RootState) => void
+  /** Called when adaptive quality was lowered */
+  onDecline?: (state: RootState) => void
+  /** Called whenever adaptive quality changes */
+  onChange?: (state: RootState) => void
+}
 
 /**
  * Exposes an object's {@link LocalState}.
@@ -58,18 +79,158 @@ export function useThree<T = RootState>(
 /**
  * Executes a callback before render in a shared frame loop.
  * Can order effects with render priority or manually render with a positive priority.
+ * Passing options allows scheduling the callback into a phase, marking it as deferrable
+ * or running it at a fixed timestep.
  * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#useframe
  */
-export function useFrame(callback: RenderCallback, renderPriority: number = 0): null {
+export function useFrame(callback: RenderCallback, renderPriority: number | FrameOptions = 0): null {
   const store = useStore()
   const subscribe = store.getState().internal.subscribe
-  // Memoize ref
+  const fiber = useFiber()
+  const [owner] = React.useState(() => getOwnerName(fiber))
+  const {
+    priority = 0,
+    name = owner,
+    phase = 'animation',
+    deferrable = false,
+    fixedStep,
+    maxSubSteps,
+    interpolate: interpolateCallback,
+  } = is.num(renderPriority) ? ({ priority: renderPriority } as FrameOptions) : renderPriority
+  // Memoize refs
   const ref = useMutableCallback(callback)
+  const interpolate = useMutableCallback(interpolateCallback)
   // Subscribe on mount, unsubscribe on unmount
-  useIsomorphicLayoutEffect(() => subscribe(ref, renderPriority, store), [renderPriority, subscribe, store])
+  useIsomorphicLayoutEffect(
+    () => subscribe(ref, priority, store, { name, phase, deferrable, fixedStep, maxSubSteps, interpolate }),
+    [priority, name, phase, deferrable, fixedStep, maxSubSteps, subscribe, store],
+  )
   return null
 }
 
+/**
+ * Reacts to the adaptive performance monitor raising or lowering quality,
+ * e.g. to turn off shadows or postprocessing.
+ * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#useperformancemonitor
+ */
+export function usePerformanceMonitor(callbacks: PerformanceCallbacks): void {
+  const store = useStore()
+  const ref = useMutableCallback(callbacks)
+  useIsomorphicLayoutEffect(() => {
+    let quality = store.getState().performance.quality
+    return store.subscribe((state) => {
+      const previous = quality
+      quality = state.performance.quality
+      if (quality === previous) return
+      if (quality > previous) ref.current.onIncline?.(state)
+      else ref.current.onDecline?.(state)
+      ref.current.onChange?.(state)
+    })
+  }, [store])
+}
+
+/**
+ * Keeps track of the hovered instances of an InstancedMesh or BatchedMesh.
+ * Returns a set of hovered instance (or batch) ids and handlers to spread onto the mesh.
+ * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#usehoveredinstances
+ */
+export function useHoveredInstances(): [
+  hovered: Set<number>,
+  handlers: Required<Pick<EventHandlers, 'onPointerOver' | 'onPointerOut'>>,
+] {
+  const [hovered, setHovered] = React.useState(() => new Set<number>())
+  const handlers = React.useMemo(() => {
+    const getId = (event: ThreeEvent<PointerEvent>) => event.instanceId ?? event.batchId
+    return {
+      onPointerOver(event: ThreeEvent<PointerEvent>) {
+        const id = getId(event)
+        if (id !== undefined) setHovered((hovered) => (hovered.has(id) ? hovered : new Set(hovered).add(id)))
+      },
+      onPointerOut(event: ThreeEvent<PointerEvent>) {
+        const id = getId(event)
+        if (id === undefined) return
+        setHovered((hovered) => {
+          if (!hovered.has(id)) return hovered
+          const next = new Set(hovered)
+          next.delete(id)
+          return next
+        })
+      },
+    }
+  }, [])
+  return [hovered, handlers]
+}
+
+/**
+ * Keeps track of whether the pointer dwells on an object, see the event manager's hoverDelay.
+ * Returns the dwell state and handlers to spread onto the object.
+ * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#usehoverdwell
+ */
+export function useHoverDwell(): [
+  dwelling: boolean,
+  handlers: Required<Pick<EventHandlers, 'onPointerEnterDelayed' | 'onPointerOut'>>,
+] {
+  const [dwelling, setDwelling] = React.useState(false)
+  const handlers = React.useMemo(
+    () => ({
+      onPointerEnterDelayed: () => setDwelling(true),
+      onPointerOut: () => setDwelling(false),
+    }),
+    [],
+  )
+  return [dwelling, handlers]
+}
+
+const NO_TRACES: EventTrace[] = []
+
+/**
+ * Returns the traces the event manager records while its debug option is on, oldest first.
+ * Can draw the rays of the latest event into the scene, green if a handler was called and red otherwise.
+ * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#useeventtraces
+ */
+export function useEventTraces({ rays = false }: { rays?: boolean } = {}): EventTrace[] {
+  const store = useStore()
+  const traces = useThree((state) => state.events.traces ?? NO_TRACES)
+  const trace = traces[traces.length - 1]
+
+  useIsomorphicLayoutEffect(() => {
+    if (!rays || !trace) return
+    const { scene, camera } = store.getState()
+    const length = trace.intersections[0]?.distance ?? camera.far
+    const color = trace.handlers.length ? 0x00ff00 : 0xff0000
+    const helpers = trace.rays.map((ray) => new THREE.ArrowHelper(ray.direction, ray.origin, length, color))
+    helpers.forEach((helper) => scene.add(helper))
+    return () =>
+      helpers.forEach((helper) => {
+        scene.remove(helper)
+        // Arrow geometries are shared between helpers, only their materials are their own
+        ;(helper.line.material as THREE.Material).dispose()
+        ;(helper.cone.material as THREE.Material).dispose()
+      })
+  }, [rays, trace, store])
+
+  return traces
+}
+
+/**
+ * Returns the amount of geometries, materials and textures that are in use across all roots, and updates whenever
+ * they change.
+ * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#useresourcestats
+ */
+export function useResourceStats(): ResourceStats {
+  const [stats, setStats] = React.useState(getResourceStats)
+  useIsomorphicLayoutEffect(() => {
+    const update = () =>
+      setStats((previous) => {
+        const next = getResourceStats()
+        return is.equ(previous, next, { objects: 'shallow' }) ? previous : next
+      })
+    update()
+    return subscribeResources(update)
+  }, [])
+  return stats
+}
+
 /**
  * Returns a node graph of an object with named nodes & materials.
  * @see https://docs.pmnd.rs/react-three-fiber/api/hooks#usegraph
@@ -94,7 +255,7 @@ function loadingFn<L extends LoaderProto<any>>(
 
     if (extensions) extensions(loader)
     // Go through the urls and load them
-    return Promise.all(
+    const request = Promise.all(
       input.map(
         (input) =>
           new Promise((res, reject) =>
@@ -110,11 +271,25 @@ function loadingFn<L extends LoaderProto<any>>(
           ),
       ),
     )
+    // Keep track of the request until it settles
+    pendingLoads.add(request)
+    const settle = () => void pendingLoads.delete(request)
+    request.then(settle, settle)
+    return request
   }
 }
 
 type GLTFLike = { scene: THREE.Object3D }
 
+// Roots provide the fiber of their components, useLoader can also be called outside of them where there is none
+function useOwnerFiber() {
+  try {
+    return useFiber()
+  } catch (_) {
+    return undefined
+  }
+}
+
 /**
  * Synchronously loads and caches assets with a three loader.
  *
@@ -130,6 +305,15 @@ export function useLoader<T, U extends string | string[], L extends LoaderProto<
   // Use suspense to load async assets
   const keys = (Array.isArray(input) ? input : [input]) as string[]
   const results = suspend(loadingFn<L>(extensions, onProgress), [Proto, ...keys], { equal: is.equ })
+  // Remember who loaded resources in case they outlive this component, only while leaks are being detected
+  const fiber = useOwnerFiber()
+  const [stack] = React.useState(() => (isDetectingLeaks() ? getComponentStack(fiber) : []))
+  useIsomorphicLayoutEffect(() => {
+    if (!isDetectingLeaks()) return
+    const resources = results.reduce<THREE.EventDispatcher[]>((acc, data) => acc.concat(collectLoaded(data)), [])
+    resources.forEach((resource) => trackCreation(resource, 'loader', () => stack))
+    return () => resources.forEach(trackUnmount)
+  }, [results, stack])
   // Return the object/s
   return (Array.isArray(input) ? results : results[0]) as U extends any[]
     ? BranchingReturn<R, GLTFLike, R & ObjectMap>[]
@@ -2,6 +2,7 @@ import * as THREE from 'three'
 import * as React from 'react'
 import { ConcurrentRoot } from 'react-reconciler/constants'
 import create, { UseBoundStore } from 'zustand'
+import { FiberProvider } from 'its-fine'
 
 import * as ReactThreeFiber from '../three-types'
 import {
@@ -17,7 +18,21 @@ import {
   privateKeys,
 } from './store'
 import { createRenderer, extend, prepare, Root } from './renderer'
-import { createLoop, addEffect, addAfterEffect, addTail, flushGlobalEffects, Invalidate, Advance } from './loop'
+import {
+  createLoop,
+  addEffect,
+  addAfterEffect,
+  addTail,
+  flushGlobalEffects,
+  animationFrameSource,
+  createTimeoutFrameSource,
+  createVideoFrameSource,
+  createXRFrameSource,
+  createManualFrameSource,
+  Invalidate,
+  Advance,
+  FrameSource,
+} from './loop'
 import { getEventPriority, EventManager, ComputeFunction } from './events'
 import {
   is,
@@ -30,10 +45,12 @@ import {
   updateCamera,
   getColorManagement,
   buildGraph,
+  pendingLoads,
   _XRFrame,
 } from './utils'
 import { useStore } from './hooks'
 import type { Properties } from '../three-types'
+import type { Disposable } from './resources'
 
 type Canvas = HTMLCanvasElement | OffscreenCanvas
 
@@ -75,15 +92,41 @@ export type RenderProps<TCanvas extends Canvas> = {
    * @see https://docs.pmnd.rs/react-three-fiber/advanced/scaling-performance#on-demand-rendering
    */
   frameloop?: 'always' | 'demand' | 'never'
+  /**
+   * Drives the root with a custom source of frames instead of the shared requestAnimationFrame loop,
+   * for instance requestVideoFrameCallback, setTimeout, an XR session or manual ticks.
+   */
+  frameSource?: FrameSource
+  /** Multiplier for the clock's delta, allows for slow-motion or fast-forwarding. Default: 1 */
+  timeScale?: number
+  /** Freezes time, subscribers receive a delta of 0 while the scene keeps rendering */
+  paused?: boolean
+  /**
+   * Records the time each useFrame subscriber, the render call and global effects take per frame
+   * into `state.profiler`. Can be passed the amount of frames to keep, default: 120
+   */
+  profile?: boolean | { size?: number }
+  /**
+   * Time in ms that useFrame subscribers may take per frame. Once it is spent, deferrable subscribers
+   * are pushed to the next frame. Default: Infinity
+   */
+  frameBudget?: number
+  /**
+   * Time in ms that disposing unmounted geometries, materials, textures and objects may take per idle callback.
+   * The rest is queued for the next one. Default: 5
+   */
+  disposeBudget?: number
   /**
    * R3F performance options for adaptive performance.
    * @see https://docs.pmnd.rs/react-three-fiber/advanced/scaling-performance#movement-regression
    */
-  performance?: Partial<Omit<Performance, 'regress'>>
+  performance?: Partial<Omit<Performance, 'regress' | 'quality'>>
   /** Target pixel ratio. Can clamp between a range: `[min, max]` */
   dpr?: Dpr
   /** Props that go into the default raycaster */
   raycaster?: Partial<THREE.Raycaster>
+  /** Layers objects have to be on to receive pointer events. Default: [0] */
+  raycastLayers?: number[]
   /** A `THREE.Scene` instance or props that go into the default scene */
   scene?: THREE.Scene | Partial<ReactThreeFiber.Object3DNode<THREE.Scene, typeof THREE.Scene>>
   /** A `THREE.Camera` instance or props that go into the default camera */
@@ -104,6 +147,8 @@ export type RenderProps<TCanvas extends Canvas> = {
   onCreated?: (state: RootState) => void
   /** Response for pointer clicks that have missed any target */
   onPointerMissed?: (event: MouseEvent) => void
+  /** Callback once the disposal queue has emptied, receives the objects that were disposed */
+  onDisposed?: (objects: Disposable[]) => void
 }
 
 const createRendererInstance = <TCanvas extends Canvas>(gl: GLProps, canvas: TCanvas): THREE.WebGLRenderer => {
@@ -119,9 +164,36 @@ const createRendererInstance = <TCanvas extends Canvas>(gl: GLProps, canvas: TCa
     })
 }
 
+export type CapturedFrame = {
+  /** Index of the frame, starting at 0 */
+  index: number
+  /** Time of the frame in seconds */
+  timestamp: number
+  /** Pixels of the rendered frame */
+  data: ImageData | Blob
+}
+
+export type CaptureOptions = {
+  /** Frames per second the clock is stepped at */
+  fps: number
+  /** Length of the capture in seconds */
+  duration: number
+  /** Whether frames are read back as ImageData or encoded as Blobs, default: "imagedata" */
+  format?: 'imagedata' | 'blob'
+  /** Image type Blobs are encoded with, default: "image/png" */
+  type?: string
+  /** Called with every rendered frame, captures wait for returned promises */
+  onFrame: (frame: CapturedFrame) => void | Promise<void>
+}
+
 export type ReconcilerRoot<TCanvas extends Canvas> = {
   configure: (config?: RenderProps<TCanvas>) => ReconcilerRoot<TCanvas>
   render: (element: React.ReactNode) => UseBoundStore<RootState>
+  /**
+   * Renders frames at a fixed rate with a deterministic clock and hands back their pixels,
+   * waiting for pending loaders before every frame.
+   */
+  captureFrames: (options: CaptureOptions) => Promise<void>
   unmount: () => void
 }
 
@@ -147,6 +219,45 @@ function computeInitialSize(canvas: Canvas, defaultSize?: Size): Size {
   return { width: 0, height: 0, top: 0, left: 0 }
 }
 
+// Waits for in-flight loaders and gives React a chance to commit what they suspended
+async function settle(): Promise<void> {
+  while (pendingLoads.size) await Promise.all([...pendingLoads].map((request) => request.catch(() => null)))
+  await new Promise((resolve) => setTimeout(resolve))
+}
+
+// Reads back the pixels of the last rendered frame
+function readPixels(gl: THREE.WebGLRenderer, format: 'imagedata' | 'blob', type: string): Promise<ImageData | Blob> {
+  if (format === 'blob') {
+    const canvas = gl.domElement as Canvas
+    if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas)
+      return canvas.convertToBlob({ type })
+    return new Promise((resolve, reject) =>
+      (canvas as HTMLCanvasElement).toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('R3F: Could not encode the captured frame!'))),
+        type,
+      ),
+    )
+  }
+
+  const context = gl.getContext()
+  const width = context.drawingBufferWidth
+  const height = context.drawingBufferHeight
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  context.readPixels(0, 0, width, height, context.RGBA, context.UNSIGNED_BYTE, pixels)
+
+  // WebGL reads bottom-up, flip rows so the image reads top-down
+  const row = width * 4
+  const data = new Uint8ClampedArray(pixels.length)
+  for (let y = 0; y < height; y++) data.set(pixels.subarray(y * row, (y + 1) * row), (height - y - 1) * row)
+
+  // ImageData isn't available in every environment, fall back to a compatible object
+  const image =
+    typeof ImageData !== 'undefined'
+      ? new ImageData(data, width, height)
+      : ({ data, width, height, colorSpace: 'srgb' } as unknown as ImageData)
+  return Promise.resolve(image)
+}
+
 function createRoot<TCanvas extends Canvas>(canvas: TCanvas): ReconcilerRoot<TCanvas> {
   // Check against mistaken use of createRoot
   const prevRoot = roots.get(canvas)
@@ -192,11 +303,19 @@ function createRoot<TCanvas extends Canvas>(canvas: TCanvas): ReconcilerRoot<TCa
         legacy = false,
         orthographic = false,
         frameloop = 'always',
+        frameSource = null,
+        frameBudget = Infinity,
+        disposeBudget = 5,
+        timeScale,
+        paused,
+        profile = false,
         dpr = [1, 2],
         performance,
         raycaster: raycastOptions,
+        raycastLayers,
         camera: cameraOptions,
         onPointerMissed,
+        onDisposed,
       } = props
 
       let state = store.getState()
@@ -214,6 +333,7 @@ function createRoot<TCanvas extends Canvas>(canvas: TCanvas): ReconcilerRoot<TCa
       if (!is.equ(options, raycaster, shallowLoose)) applyProps(raycaster as any, { ...options })
       if (!is.equ(params, raycaster.params, shallowLoose))
         applyProps(raycaster as any, { params: { ...raycaster.params, ...params } })
+      if (raycastLayers) raycaster.layers.mask = raycastLayers.reduce((mask, layer) => mask | (1 << layer), 0)
 
       // Create default camera, don't overwrite any user-set state
       if (!state.camera || (state.camera === lastCamera && !is.equ(lastCamera, cameraOptions, shallowLoose))) {
@@ -256,17 +376,19 @@ function createRoot<TCanvas extends Canvas>(canvas: TCanvas): ReconcilerRoot<TCa
         // Handle frame behavior in WebXR
         const handleXRFrame = (timestamp: number, frame?: _XRFrame) => {
           const state = store.getState()
-          if (state.frameloop === 'never') return
+          // Roots driven by the session's frames already render with them
+          if (state.frameloop === 'never' || state.internal.frameSource?.xr) return
           advance(timestamp, true, state, frame)
         }
 
         // Toggle render switching on session
         const handleSessionChange = () => {
           const state = store.getState()
+          const drivenByXR = !!state.internal.frameSource?.xr
           state.gl.xr.enabled = state.gl.xr.isPresenting
 
-          state.gl.xr.setAnimationLoop(state.gl.xr.isPresenting ? handleXRFrame : null)
-          if (!state.gl.xr.isPresenting) invalidate(state)
+          state.gl.xr.setAnimationLoop(state.gl.xr.isPresenting && !drivenByXR ? handleXRFrame : null)
+          if (!state.gl.xr.isPresenting || drivenByXR) invalidate(state)
         }
 
         // WebXR session manager
@@ -348,9 +470,30 @@ function createRoot<TCanvas extends Canvas>(canvas: TCanvas): ReconcilerRoot<TCa
         state.setSize(size.width, size.height, size.updateStyle, size.top, size.left)
       }
       // Check pixelratio
-      if (dpr && state.viewport.dpr !== calculateDpr(dpr)) state.setDpr(dpr)
+      if (dpr && state.viewport.dpr !== calculateDpr(dpr, state.performance.quality)) state.setDpr(dpr)
       // Check frameloop
       if (state.frameloop !== frameloop) state.setFrameloop(frameloop)
+      // Check frame source, cancel frames that were requested from the previous one
+      if (state.internal.frameSource !== frameSource) {
+        const { frameSource: previous, frameRequest } = state.internal
+        if (previous && frameRequest !== undefined) previous.cancel(frameRequest)
+        state.internal.frameSource = frameSource
+        state.internal.frameRequest = undefined
+        state.invalidate()
+      }
+      // Check time controls, these can also be set imperatively and are left alone when omitted
+      if (timeScale !== undefined && state.timeScale !== timeScale) state.set({ timeScale })
+      if (paused !== undefined && state.paused !== paused) state.set({ paused })
+      // Check profiling
+      if (profile) {
+        const size = (is.obj(profile) && (profile as { size?: number }).size) || 120
+        if (state.profiler?.size !== size) state.set({ profiler: { size, history: state.profiler?.history ?? [] } })
+      } else if (state.profiler) state.set({ profiler: null })
+      // Check frame budget
+      if (state.frameBudget !== frameBudget) state.set(() => ({ frameBudget }))
+      // Check disposal queue
+      if (state.disposeBudget !== disposeBudget) state.set({ disposeBudget })
+      if (state.onDisposed !== onDisposed) state.set({ onDisposed })
       // Check pointer missed
       if (!state.onPointerMissed) state.set({ onPointerMissed })
       // Check performance
@@ -368,13 +511,36 @@ function createRoot<TCanvas extends Canvas>(canvas: TCanvas): ReconcilerRoot<TCa
       if (!configured) this.configure()
 
       reconciler.updateContainer(
-        <Provider store={store} children={children} onCreated={onCreated} rootElement={canvas} />,
+        <FiberProvider>
+          <Provider store={store} children={children} onCreated={onCreated} rootElement={canvas} />
+        </FiberProvider>,
         fiber,
         null,
         () => undefined,
       )
       return store
     },
+    async captureFrames({ fps, duration, format = 'imagedata', type = 'image/png', onFrame }: CaptureOptions) {
+      const { frameloop, setFrameloop, internal } = store.getState()
+      // Take control of the clock, it's stepped in fixed increments from 0
+      setFrameloop('never')
+      const { clock } = store.getState()
+      clock.elapsedTime = clock.oldTime = 0
+      // Drop pending frames so the shared loop leaves this root alone
+      internal.frames = 0
+      try {
+        const count = Math.round(fps * duration)
+        for (let index = 0; index < count; index++) {
+          const timestamp = index / fps
+          await settle()
+          const state = store.getState()
+          advance(timestamp, true, state)
+          await onFrame({ index, timestamp, data: await readPixels(state.gl, format, type) })
+        }
+      } finally {
+        setFrameloop(frameloop)
+      }
+    },
     unmount() {
       unmountComponentAtNode(canvas)
     },
@@ -422,12 +588,19 @@ function unmountComponentAtNode<TCanvas extends Canvas>(canvas: TCanvas, callbac
   const fiber = root?.fiber
   if (fiber) {
     const state = root?.store.getState()
-    if (state) state.internal.active = false
+    if (state) {
+      state.internal.active = false
+      // Cancel a pending frame of a custom frame source, it would otherwise still run after unmounting
+      const { frameSource, frameRequest } = state.internal
+      if (frameSource && frameRequest !== undefined) frameSource.cancel(frameRequest)
+      state.internal.frameRequest = undefined
+    }
     reconciler.updateContainer(null, fiber, null, () => {
       if (state) {
         setTimeout(() => {
           try {
             state.events.disconnect?.()
+            state.events.intersect?.dispose?.()
             state.gl?.renderLists?.dispose?.()
             state.gl?.forceContextLoss?.()
             if (state.gl?.xr) state.xr.disconnect()
@@ -443,6 +616,14 @@ function unmountComponentAtNode<TCanvas extends Canvas>(canvas: TCanvas, callbac
   }
 }
 
+/**
+ * Disposes everything that is queued for disposal on all roots right away.
+ * Resolves once unmounted geometries, materials and textures have been released.
+ */
+function flushDisposals(): Promise<void> {
+  return Promise.all(Array.from(roots.values(), ({ store }) => store.getState().flushDisposals())).then(() => {})
+}
+
 export type InjectState = Partial<
   Omit<RootState, PrivateKeys> & {
     events?: {
@@ -586,6 +767,10 @@ reconciler.injectIntoDevTools({
 const act = (React as any).unstable_act
 
 export * from './hooks'
+export { createPicking } from './picking'
+export { recordEvents, replayEvents } from './recorder'
+export { getResourceStats } from './resources'
+export { detectLeaks } from './leaks'
 export {
   context,
   render,
@@ -595,6 +780,7 @@ export {
   reconciler,
   applyProps,
   dispose,
+  flushDisposals,
   invalidate,
   advance,
   extend,
@@ -602,6 +788,11 @@ export {
   addAfterEffect,
   addTail,
   flushGlobalEffects,
+  animationFrameSource,
+  createTimeoutFrameSource,
+  createVideoFrameSource,
+  createXRFrameSource,
+  createManualFrameSource,
   getRootState,
   act,
   buildGraph,
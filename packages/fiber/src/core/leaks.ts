@@ -0,0 +1,182 @@
+import * as THREE from 'three'
+
+export type LeakKind = 'geometry' | 'material' | 'texture' | 'renderTarget'
+
+export type Leak = {
+  resource: THREE.EventDispatcher
+  kind: LeakKind
+  /** Whether the resource was created from an element or loaded with useLoader */
+  source: 'element' | 'loader'
+  /** Names of the components above the owner of the resource, innermost first */
+  stack: string[]
+}
+
+export type LeakDetectorOptions = {
+  /** Amount of consecutive mount/unmount cycles that have to leak before a component is warned about. Default: 3 */
+  cycles?: number
+  /** Called instead of warning when a component leaks across cycles, receives the resources it left behind */
+  onLeak?: (component: string, leaks: Leak[]) => void
+}
+
+export type LeakDetector = {
+  /** Resources that are still alive after their owner unmounted */
+  getLeaks: () => Leak[]
+  /** Warns about the resources that are still alive after their owner unmounted, and returns them */
+  report: () => Leak[]
+  /** Stops tracking and forgets all resources */
+  stop: () => void
+}
+
+type Entry = Leak & { owners: number; group: Group }
+
+/** Resources of the components that share a stack, sampled at the start of every mount cycle */
+type Group = { name: string; mounted: number; samples: number[]; warned: boolean }
+
+type Detector = {
+  cycles: number
+  onLeak?: LeakDetectorOptions['onLeak']
+  entries: Map<THREE.EventDispatcher, Entry>
+  groups: Map<string, Group>
+}
+
+const __DEV__ = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production'
+
+let detector: Detector | null = null
+
+/** Whether a leak detector is running in development */
+export const isDetectingLeaks = () => __DEV__ && !!detector
+
+type Trackable = Partial<THREE.BufferGeometry & THREE.Material & THREE.Texture & THREE.WebGLRenderTarget>
+
+function getKind(resource: unknown): LeakKind | undefined {
+  if (typeof resource !== 'object' || resource === null) return
+  const { isBufferGeometry, isMaterial, isTexture, isWebGLRenderTarget } = resource as Trackable
+  if (isBufferGeometry) return 'geometry'
+  if (isMaterial) return 'material'
+  if (isTexture) return 'texture'
+  if (isWebGLRenderTarget) return 'renderTarget'
+}
+
+/** Whether a value is a geometry, material, texture or render target */
+const isTrackable = (value: unknown): value is THREE.EventDispatcher => !!getKind(value)
+
+const isLeaked = (entry: Entry) => entry.owners === 0
+
+const toLeak = ({ resource, kind, source, stack }: Entry): Leak => ({ resource, kind, source, stack })
+
+function warn(name: string, leaks: Leak[]) {
+  if (detector?.onLeak) return detector.onLeak(name, leaks)
+  const kinds = leaks.reduce(
+    (acc, { kind }) => ({ ...acc, [kind]: (acc[kind] ?? 0) + 1 }),
+    {} as Record<string, number>,
+  )
+  const summary = Object.entries(kinds)
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(', ')
+  console.warn(`R3F: <${name}> leaks GPU resources across mount cycles, ${summary} are still alive after unmount`)
+}
+
+/** Samples the resources a group left behind once it mounts again, and warns if they kept growing */
+function startCycle(group: Group) {
+  const { cycles, entries } = detector!
+  const leaks = Array.from(entries.values()).filter((entry) => entry.group === group && isLeaked(entry))
+  const samples = [...group.samples, leaks.length].slice(-(cycles + 1))
+  group.samples = samples
+  const growing = samples.length > cycles && samples.every((sample, i) => i === 0 || sample > samples[i - 1])
+  if (growing && !group.warned) {
+    group.warned = true
+    warn(group.name, leaks.map(toLeak))
+  }
+}
+
+function claim(entry: Entry) {
+  if (entry.owners++ === 0 && entry.group.mounted++ === 0) startCycle(entry.group)
+}
+
+/**
+ * Tracks a geometry, material, texture or render target along with the component stack of its owner.
+ * Does nothing unless a leak detector is running in development.
+ */
+export function trackCreation(resource: unknown, source: Leak['source'], getStack: () => string[]) {
+  const kind = getKind(resource)
+  if (!isDetectingLeaks() || !kind || !isTrackable(resource)) return
+
+  const { entries, groups } = detector!
+  let entry = entries.get(resource)
+  if (!entry) {
+    const stack = getStack()
+    const key = stack.join('<')
+    let group = groups.get(key)
+    if (!group) groups.set(key, (group = { name: stack[0] ?? 'Canvas', mounted: 0, samples: [], warned: false }))
+    entries.set(resource, (entry = { resource, kind, source, stack, owners: 0, group }))
+    // Disposed resources are no concern anymore
+    const onDispose = () => {
+      resource.removeEventListener('dispose', onDispose)
+      if (entries.get(resource) !== entry) return
+      if (!isLeaked(entry!)) entry!.group.mounted--
+      entries.delete(resource)
+    }
+    resource.addEventListener('dispose', onDispose)
+  }
+  claim(entry)
+}
+
+/** Marks that the owner of a tracked resource unmounted */
+export function trackUnmount(resource: unknown) {
+  const entry = isTrackable(resource) ? detector?.entries.get(resource) : undefined
+  if (!entry || isLeaked(entry)) return
+  if (--entry.owners === 0) entry.group.mounted--
+}
+
+/** Collects the resources of loaded data, like a texture or a GLTF's scene graph */
+export function collectLoaded(data: unknown): THREE.EventDispatcher[] {
+  const resources = new Set<THREE.EventDispatcher>()
+  const add = (value: unknown) => {
+    if (!isTrackable(value) || resources.has(value)) return
+    resources.add(value)
+    // Materials are scanned for their textures
+    if (getKind(value) !== 'material') return
+    for (const property of Object.values(value)) if (getKind(property) === 'texture') add(property)
+  }
+  add(data)
+  const { scene } = (data ?? {}) as { scene?: THREE.Object3D }
+  scene?.traverse?.((object) => {
+    const { geometry, material } = object as Partial<THREE.Mesh>
+    add(geometry)
+    if (Array.isArray(material)) material.forEach(add)
+    else add(material)
+  })
+  return Array.from(resources)
+}
+
+/**
+ * Tracks geometries, materials, textures and render targets that are created from elements or loaded
+ * with useLoader in development, and reports those that are still alive after their owner unmounted.
+ * Warns when a component leaves more resources behind with every mount/unmount cycle.
+ */
+export function detectLeaks({ cycles = 3, onLeak }: LeakDetectorOptions = {}): LeakDetector {
+  const current: Detector = { cycles, onLeak, entries: new Map(), groups: new Map() }
+  detector = current
+
+  const getLeaks = () => Array.from(current.entries.values()).filter(isLeaked).map(toLeak)
+
+  return {
+    getLeaks,
+    report() {
+      const leaks = getLeaks()
+      leaks.forEach(({ kind, stack }) =>
+        console.warn(
+          `R3F: A ${kind} is still alive after its owner unmounted\n${stack
+            .map((name) => `    in ${name}`)
+            .join('\n')}`,
+        ),
+      )
+      return leaks
+    },
+    stop() {
+      if (detector === current) detector = null
+      current.entries.clear()
+      current.groups.clear()
+    },
+  }
+}
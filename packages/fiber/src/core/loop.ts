@@ -1,5 +1,6 @@
+import * as THREE from 'three'
 import { Root } from './renderer'
-import { RootState, Subscription } from './store'
+import { FrameProfile, RootState, Subscription } from './store'
 import { _XRFrame } from './utils'
 
 export type GlobalRenderCallback = (timeStamp: number) => void
@@ -11,6 +12,11 @@ function createSubs(callback: GlobalRenderCallback, subs: Set<SubItem>): () => v
   return () => void subs.delete(sub)
 }
 
+const now =
+  typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? () => performance.now()
+    : () => Date.now()
+
 let i
 let globalEffects: Set<SubItem> = new Set()
 let globalAfterEffects: Set<SubItem> = new Set()
@@ -34,50 +40,249 @@ export const addAfterEffect = (callback: GlobalRenderCallback) => createSubs(cal
  */
 export const addTail = (callback: GlobalRenderCallback) => createSubs(callback, globalTailEffects)
 
-function run(effects: Set<SubItem>, timestamp: number) {
-  if (!effects.size) return
-  for (const { callback } of effects.values()) {
+function run(type: GlobalEffectType, subs: Set<SubItem>, timestamp: number) {
+  if (!subs.size) return void (effects[type] = 0)
+  const start = now()
+  for (const { callback } of subs.values()) {
     callback(timestamp)
   }
+  effects[type] = now() - start
 }
 
 export type GlobalEffectType = 'before' | 'after' | 'tail'
 
+// Time the last flush of each type of global effects took, for profiling
+const effects: Record<GlobalEffectType, number> = { before: 0, after: 0, tail: 0 }
+
 export function flushGlobalEffects(type: GlobalEffectType, timestamp: number): void {
   switch (type) {
     case 'before':
-      return run(globalEffects, timestamp)
+      return run(type, globalEffects, timestamp)
     case 'after':
-      return run(globalAfterEffects, timestamp)
+      return run(type, globalAfterEffects, timestamp)
     case 'tail':
-      return run(globalTailEffects, timestamp)
+      return run(type, globalTailEffects, timestamp)
   }
 }
 
 let subscribers: Subscription[]
 let subscription: Subscription
+let profile: FrameProfile | null
+let start: number
+let time: number
+let steps: number
+let step: number
+function call(delta: number, frame?: _XRFrame) {
+  if (!subscription.fixedStep) return subscription.ref.current(subscription.store.getState(), delta, frame)
+
+  // Fixed-step subscriptions consume the accumulated time in constant steps
+  subscription.accumulator += delta
+  steps = Math.floor(subscription.accumulator / subscription.fixedStep)
+  if (steps > subscription.maxSubSteps) {
+    // Drop the time that can't be caught up on, otherwise slow frames would spiral
+    steps = subscription.maxSubSteps
+    subscription.accumulator %= subscription.fixedStep
+  } else subscription.accumulator -= steps * subscription.fixedStep
+  for (step = 0; step < steps; step++) {
+    subscription.ref.current(subscription.store.getState(), subscription.fixedStep, frame)
+  }
+  subscription.interpolate?.current?.(subscription.store.getState(), subscription.accumulator / subscription.fixedStep)
+}
+
+function update(state: RootState, delta: number, frame?: _XRFrame) {
+  // Deferrable subscriptions are skipped once the budget is spent, but never twice in a row
+  if (subscription.deferrable && !subscription.deferred && now() - start > state.frameBudget) {
+    subscription.deferred = true
+    subscription.debt += delta
+    // Make sure there will be a next frame to catch up on
+    state.internal.frames = Math.max(state.internal.frames, 2)
+    return
+  }
+  delta += subscription.debt
+  subscription.deferred = false
+  subscription.debt = 0
+  if (!profile) return call(delta, frame)
+
+  time = now()
+  call(delta, frame)
+  profile.subscribers.push({
+    name: subscription.name,
+    phase: subscription.phase,
+    priority: subscription.priority,
+    duration: now() - time,
+  })
+}
+
+// Reads the real time in seconds since the clock was last read, the loop adds it to the elapsed time once it's scaled
+function measure(clock: THREE.Clock): number {
+  if (clock.autoStart && !clock.running) {
+    clock.start()
+    return 0
+  }
+  if (!clock.running) return 0
+  const time = now()
+  const delta = (time - clock.oldTime) / 1000
+  clock.oldTime = time
+  return delta
+}
+
 function render(timestamp: number, state: RootState, frame?: _XRFrame) {
   // Run local effects
-  let delta = state.clock.getDelta()
-  // In frameloop='never' mode, clock times are updated using the provided timestamp
+  let delta: number
+  // In frameloop='never' mode, clock times are updated using the provided timestamp, oldTime holds the previous one
   if (state.frameloop === 'never' && typeof timestamp === 'number') {
-    delta = timestamp - state.clock.elapsedTime
-    state.clock.oldTime = state.clock.elapsedTime
-    state.clock.elapsedTime = timestamp
-  }
+    delta = timestamp - state.clock.oldTime
+    state.clock.oldTime = timestamp
+  } else delta = measure(state.clock)
+  // Scale time, a paused root only moves when it's stepped
+  delta = state.paused ? state.internal.step : delta * state.timeScale
+  state.clock.elapsedTime += delta
+  state.internal.step = 0
+  start = now()
+  profile = state.profiler
+    ? { timestamp, total: 0, render: 0, effects: { before: effects.before, after: 0, tail: 0 }, subscribers: [] }
+    : null
   // Call subscribers (useFrame)
   subscribers = state.internal.subscribers
-  for (i = 0; i < subscribers.length; i++) {
+  for (i = 0; i < subscribers.length && subscribers[i].phase !== 'postRender'; i++) {
     subscription = subscribers[i]
-    subscription.ref.current(subscription.store.getState(), delta, frame)
+    update(state, delta, frame)
   }
   // Render content
+  time = now()
   if (!state.internal.priority && state.gl.render) state.gl.render(state.scene, state.camera)
+  if (profile) profile.render = now() - time
+  // Call post-render subscribers
+  for (; i < subscribers.length; i++) {
+    subscription = subscribers[i]
+    update(state, delta, frame)
+  }
+  // Record the frame, keeping a rolling history
+  if (profile && state.profiler) {
+    profile.total = now() - start
+    state.profiler.history.push(profile)
+    if (state.profiler.history.length > state.profiler.size) state.profiler.history.shift()
+    profile = null
+  }
   // Decrease frame count
   state.internal.frames = Math.max(0, state.internal.frames - 1)
   return state.frameloop === 'always' ? 1 : state.internal.frames
 }
 
+// Frames that take longer than this in ms are pauses, e.g. a hidden tab, and aren't sampled
+const MAX_FRAME_TIME = 1000
+
+// Lowers or raises adaptive quality depending on the average frame time
+function adapt(state: RootState, average: number) {
+  const { performance } = state
+  let quality = performance.quality
+  if (average > performance.target) {
+    performance.regress()
+    quality = Math.max(0, quality - performance.step)
+  } else if (average < performance.target * performance.hysteresis) {
+    quality = Math.min(1, quality + performance.step)
+  }
+  if (quality === performance.quality) return
+  state.set(({ performance }) => ({ performance: { ...performance, quality } }))
+  state.setDpr(state.internal.dpr)
+}
+
+// Samples the time between consecutive frames of a root for the adaptive performance monitor
+function monitor(timestamp: number, state: RootState, repeat: number) {
+  const frameTimes = state.internal.frameTimes
+  const frameTime = frameTimes.timestamp === undefined ? MAX_FRAME_TIME : timestamp - frameTimes.timestamp
+  if (state.performance.adaptive && frameTime < MAX_FRAME_TIME) {
+    frameTimes.total += frameTime
+    if (++frameTimes.count >= state.performance.samples) {
+      const average = frameTimes.total / frameTimes.count
+      frameTimes.total = frameTimes.count = 0
+      adapt(state, average)
+    }
+  }
+  // Once the root stops rendering its next frame won't follow this one
+  frameTimes.timestamp = repeat > 0 ? timestamp : undefined
+}
+
+// Attributes global effects that ran after a root has rendered to its last recorded frame
+function profileEffects(type: 'after' | 'tail', timestamp: number, state: RootState) {
+  const last = state.profiler?.history[state.profiler.history.length - 1]
+  if (last && last.timestamp === timestamp) last.effects[type] = effects[type]
+}
+
+export type FrameCallback = (timestamp: number, frame?: _XRFrame) => void
+
+/** Drives the render-loop, schedules a callback for the next frame and returns a handle to cancel it */
+export type FrameSource<Handle = unknown> = {
+  request(callback: FrameCallback): Handle
+  cancel(handle: Handle): void
+  /** Whether the source drives an XR session, its root keeps rendering while the session is presenting */
+  xr?: boolean
+}
+
+/** The default frame source, the browser's requestAnimationFrame */
+export const animationFrameSource: FrameSource<number> = {
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (handle) => cancelAnimationFrame(handle),
+}
+
+/** Schedules frames with setTimeout, useful in workers or headless environments */
+export function createTimeoutFrameSource(fps = 60): FrameSource<ReturnType<typeof setTimeout>> {
+  return {
+    request: (callback) => setTimeout(() => callback(now()), 1000 / fps),
+    cancel: (handle) => clearTimeout(handle),
+  }
+}
+
+type VideoFrameElement = {
+  requestVideoFrameCallback: (callback: (now: number) => void) => number
+  cancelVideoFrameCallback: (handle: number) => void
+}
+
+/** Renders in sync with a video's presented frames via requestVideoFrameCallback */
+export function createVideoFrameSource(video: VideoFrameElement): FrameSource<number> {
+  return {
+    request: (callback) => video.requestVideoFrameCallback((now) => callback(now)),
+    cancel: (handle) => video.cancelVideoFrameCallback(handle),
+  }
+}
+
+type XRFrameSession = {
+  requestAnimationFrame: (callback: (timestamp: number, frame: _XRFrame) => void) => number
+  cancelAnimationFrame: (handle: number) => void
+}
+
+/** Renders with an XR session's frames */
+export function createXRFrameSource(session: XRFrameSession): FrameSource<number> {
+  return {
+    request: (callback) => session.requestAnimationFrame(callback),
+    cancel: (handle) => session.cancelAnimationFrame(handle),
+    xr: true,
+  }
+}
+
+export type ManualFrameSource = FrameSource<number> & {
+  /** Runs the pending frame, if any */
+  tick: (timestamp?: number, frame?: _XRFrame) => void
+}
+
+/** A frame source that only runs frames when it is ticked */
+export function createManualFrameSource(): ManualFrameSource {
+  const callbacks = new Map<number, FrameCallback>()
+  let id = 0
+  return {
+    request: (callback) => {
+      callbacks.set(++id, callback)
+      return id
+    },
+    cancel: (handle) => void callbacks.delete(handle),
+    tick: (timestamp = now(), frame) => {
+      const pending = [...callbacks.values()]
+      callbacks.clear()
+      for (const callback of pending) callback(timestamp, frame)
+    },
+  }
+}
+
 export type Invalidate = (state?: RootState, frames?: number) => void
 export type Advance = (timestamp: number, runGlobalEffects?: boolean, state?: RootState, frame?: _XRFrame) => void
 
@@ -102,6 +307,13 @@ export function createLoop<TCanvas>(roots: Map<TCanvas, Root>): Loop {
   let frame: number
   let state: RootState
 
+  // A presenting XR session renders with its own loop, unless the root is driven by the session's frames
+  const isPresenting = (state: RootState) => state.gl.xr?.isPresenting && !state.internal.frameSource?.xr
+
+  // Whether the frameloop is invalidated and the root should render
+  const shouldRender = (state: RootState) =>
+    state.internal.active && (state.frameloop === 'always' || state.internal.frames > 0) && !isPresenting(state)
+
   function loop(timestamp: number): void {
     frame = requestAnimationFrame(loop)
     running = true
@@ -110,28 +322,28 @@ export function createLoop<TCanvas>(roots: Map<TCanvas, Root>): Loop {
     // Run effects
     flushGlobalEffects('before', timestamp)
 
-    // Render all roots
+    // Render all roots, except for those that are driven by their own frame source
     useFrameInProgress = true
     for (const root of roots.values()) {
       state = root.store.getState()
-      // If the frameloop is invalidated, do not run another frame
-      if (
-        state.internal.active &&
-        (state.frameloop === 'always' || state.internal.frames > 0) &&
-        !state.gl.xr?.isPresenting
-      ) {
-        repeat += render(timestamp, state)
+      if (!state.internal.frameSource && shouldRender(state)) {
+        const frames = render(timestamp, state)
+        monitor(timestamp, state, frames)
+        repeat += frames
       }
     }
     useFrameInProgress = false
 
     // Run after-effects
     flushGlobalEffects('after', timestamp)
+    for (const root of roots.values()) profileEffects('after', timestamp, root.store.getState())
+    effects.before = 0
 
     // Stop the loop if nothing invalidates it
     if (repeat === 0) {
       // Tail call effects, they are called when rendering stops
       flushGlobalEffects('tail', timestamp)
+      for (const root of roots.values()) profileEffects('tail', timestamp, root.store.getState())
 
       // Flag end of operation
       running = false
@@ -139,9 +351,40 @@ export function createLoop<TCanvas>(roots: Map<TCanvas, Root>): Loop {
     }
   }
 
+  // Runs a frame for a root with a custom frame source
+  function tick(store: RootState['get'], timestamp: number, xrFrame?: _XRFrame): void {
+    let state = store()
+    state.internal.frameRequest = undefined
+
+    flushGlobalEffects('before', timestamp)
+    useFrameInProgress = true
+    const repeat = shouldRender(state) ? render(timestamp, state, xrFrame) : 0
+    monitor(timestamp, state, repeat)
+    useFrameInProgress = false
+    flushGlobalEffects('after', timestamp)
+    profileEffects('after', timestamp, state)
+    effects.before = 0
+
+    // Keep going while the root is invalidated, a frame could've been requested by a subscriber already
+    state = store()
+    if (repeat > 0 && state.internal.frameSource) {
+      if (state.internal.frameRequest === undefined) request(state)
+    } else {
+      flushGlobalEffects('tail', timestamp)
+      profileEffects('tail', timestamp, state)
+    }
+  }
+
+  function request(state: RootState): void {
+    const get = state.get
+    state.internal.frameRequest = state.internal.frameSource!.request((timestamp, xrFrame) =>
+      tick(get, timestamp, xrFrame),
+    )
+  }
+
   function invalidate(state?: RootState, frames = 1): void {
     if (!state) return roots.forEach((root) => invalidate(root.store.getState(), frames))
-    if (state.gl.xr?.isPresenting || !state.internal.active || state.frameloop === 'never') return
+    if (isPresenting(state) || !state.internal.active || state.frameloop === 'never') return
     if (frames > 1) {
       // legacy support for people using frames parameters
       // Increase frames, do not go higher than 60
@@ -156,6 +399,12 @@ export function createLoop<TCanvas>(roots: Map<TCanvas, Root>): Loop {
       }
     }
 
+    // Roots with a custom frame source request their own frames
+    if (state.internal.frameSource) {
+      if (state.internal.frameRequest === undefined) request(state)
+      return
+    }
+
     // If the render-loop isn't active, start it
     if (!running) {
       running = true
@@ -167,7 +416,12 @@ export function createLoop<TCanvas>(roots: Map<TCanvas, Root>): Loop {
     if (runGlobalEffects) flushGlobalEffects('before', timestamp)
     if (!state) for (const root of roots.values()) render(timestamp, root.store.getState())
     else render(timestamp, state, frame)
-    if (runGlobalEffects) flushGlobalEffects('after', timestamp)
+    if (runGlobalEffects) {
+      flushGlobalEffects('after', timestamp)
+      if (!state) for (const root of roots.values()) profileEffects('after', timestamp, root.store.getState())
+      else profileEffects('after', timestamp, state)
+    }
+    effects.before = 0
   }
 
   return { loop, invalidate, advance }
@@ -0,0 +1,269 @@
+import * as THREE from 'three'
+import type { RootState } from './store'
+import type { IntersectFunction } from './events'
+import { getRootState } from './utils'
+
+// Layer that pickable objects are rendered on while picking
+const PICKING_LAYER = 31
+
+const vertexShader = /* glsl */ `
+  #include <common>
+  #include <morphtarget_pars_vertex>
+  #include <skinning_pars_vertex>
+  uniform float pointSize;
+  uniform float pointScale;
+  varying float vElementId;
+  void main() {
+    #include <skinbase_vertex>
+    #include <begin_vertex>
+    #include <morphtarget_vertex>
+    #include <skinning_vertex>
+    #include <project_vertex>
+    // Points are sized like PointsMaterial draws them, attenuated when a scale is given
+    gl_PointSize = pointScale > 0.0 ? pointSize * (pointScale / -mvPosition.z) : pointSize;
+    vElementId = 0.0;
+    #if __VERSION__ >= 300
+      #ifdef USE_INSTANCING
+        vElementId = float(gl_InstanceID);
+      #else
+        vElementId = float(gl_VertexID);
+      #endif
+    #endif
+  }
+`
+
+const idFragmentShader = /* glsl */ `
+  uniform vec3 objectId;
+  void main() {
+    gl_FragColor = vec4(objectId, 1.0);
+  }
+`
+
+const elementFragmentShader = /* glsl */ `
+  uniform float isPoints;
+  uniform float isInstanced;
+  varying float vElementId;
+  void main() {
+    // Instance or point indices are packed into RGB, 24 bits are what a float holds exactly
+    float element = floor(vElementId + 0.5) * max(isPoints, isInstanced);
+    gl_FragColor = vec4(floor(element / 65536.0) / 255.0, mod(floor(element / 256.0), 256.0) / 255.0, mod(element, 256.0) / 255.0, 1.0);
+  }
+`
+
+const depthFragmentShader = /* glsl */ `
+  #include <packing>
+  void main() {
+    gl_FragColor = packDepthToRGBA(gl_FragCoord.z);
+  }
+`
+
+const createUniforms = () => ({
+  // Ids are packed into RGB like a hex color
+  objectId: { value: new THREE.Color() },
+  isPoints: { value: 0 },
+  isInstanced: { value: 0 },
+  pointSize: { value: 1 },
+  pointScale: { value: 0 },
+})
+
+type Pick = {
+  object: THREE.Object3D
+  element: number
+  depth: number
+}
+
+export type PickingPass = 'id' | 'element' | 'depth'
+
+export type PickingOptions = {
+  /**
+   * Supplies materials for objects whose vertices are displaced in their shader. They receive the same uniforms
+   * as the default picking materials and have to write ids, element indices or packed depth, depending on the pass.
+   */
+  material?: (object: THREE.Object3D, pass: PickingPass) => THREE.ShaderMaterial | undefined
+}
+
+const _color = new THREE.Color()
+const _direction = new THREE.Vector3()
+const _origin = new THREE.Vector3()
+
+/** Reads the size of points from a PointsMaterial, or the size uniform of shader materials built on its shader */
+function getPointSize(material: THREE.Material | undefined): [size: number, attenuated: boolean] {
+  const shader = material as THREE.ShaderMaterial | undefined
+  if (shader?.isShaderMaterial) return [shader.uniforms.size?.value ?? 1, !!shader.defines?.USE_SIZEATTENUATION]
+  const points = material as Partial<THREE.PointsMaterial> | undefined
+  return [points?.size ?? 1, !!points?.sizeAttenuation]
+}
+
+/** Reads an integer that was packed into the RGB channels of the picked pixel */
+const unpack = (pixel: Uint8Array) => pixel[0] * 65536 + pixel[1] * 256 + pixel[2]
+
+/**
+ * Creates an intersection backend that renders object and instance ids into an offscreen picking buffer
+ * and reads back the pixel under the pointer, instead of raycasting.
+ */
+export function createPicking({ material }: PickingOptions = {}): IntersectFunction & { dispose: () => void } {
+  const target = new THREE.WebGLRenderTarget(1, 1)
+  const materials: Record<PickingPass, THREE.ShaderMaterial> = {
+    id: new THREE.ShaderMaterial({ vertexShader, fragmentShader: idFragmentShader, uniforms: createUniforms() }),
+    element: new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: elementFragmentShader,
+      uniforms: createUniforms(),
+    }),
+    depth: new THREE.ShaderMaterial({ vertexShader, fragmentShader: depthFragmentShader, uniforms: createUniforms() }),
+  }
+  const pixel = new Uint8Array(4)
+
+  // Picks are made once per event and root, the cache is cleared once the event has been handled
+  const picks = new Map<RootState, Pick | null>()
+
+  function render(state: RootState, camera: THREE.Camera, objects: THREE.Object3D[], pass: PickingPass) {
+    const { gl, scene } = state
+    const originals = objects.map((object) => [object.onBeforeRender, (object as THREE.Mesh).material] as const)
+
+    objects.forEach((object, index) => {
+      const source = (object as THREE.Mesh).material as THREE.Material | undefined
+      const [size, attenuated] = getPointSize(source)
+      const custom = material?.(object, pass)
+      const override = custom ?? materials[pass]
+      ;(object as THREE.Mesh).material = override
+      object.onBeforeRender = () => {
+        const uniforms = override.uniforms
+        const id = index + 1
+        uniforms.objectId?.value.setHex(id)
+        if (uniforms.isPoints) uniforms.isPoints.value = (object as THREE.Points).isPoints ? 1 : 0
+        if (uniforms.isInstanced) uniforms.isInstanced.value = (object as THREE.InstancedMesh).isInstancedMesh ? 1 : 0
+        if (uniforms.pointSize) uniforms.pointSize.value = size
+        if (uniforms.pointScale) uniforms.pointScale.value = attenuated ? state.size.height / 2 : 0
+        if (!custom) override.side = source?.side ?? THREE.FrontSide
+        override.uniformsNeedUpdate = true
+      }
+    })
+
+    gl.setRenderTarget(target)
+    gl.clear()
+    gl.render(scene, camera)
+    gl.readRenderTargetPixels(target, 0, 0, 1, 1, pixel)
+
+    objects.forEach((object, index) => {
+      object.onBeforeRender = originals[index][0]
+      ;(object as THREE.Mesh).material = originals[index][1]
+    })
+  }
+
+  function pick(state: RootState, camera: THREE.Camera): Pick | null {
+    const { gl, scene, size, pointer, internal } = state
+
+    // Objects with handlers of this root, and their descendants, are rendered with their id
+    const objects: THREE.Object3D[] = []
+    for (const object of internal.interaction) {
+      if (getRootState(object) !== state) continue
+      object.traverse((child) => {
+        if (
+          ((child as THREE.Mesh).isMesh || (child as THREE.Points).isPoints || (child as THREE.Line).isLine) &&
+          !objects.includes(child)
+        ) {
+          objects.push(child)
+        }
+      })
+    }
+    if (!objects.length) return null
+
+    // Save renderer, scene and camera state
+    const renderTarget = gl.getRenderTarget()
+    const clearColor = gl.getClearColor(_color).getHex()
+    const clearAlpha = gl.getClearAlpha()
+    const { background, overrideMaterial } = scene
+    const mask = camera.layers.mask
+    const projection = camera as THREE.PerspectiveCamera | THREE.OrthographicCamera
+    const view = projection.view && { ...projection.view }
+    const masks = objects.map((object) => object.layers.mask)
+
+    for (const object of objects) object.layers.enable(PICKING_LAYER)
+    camera.layers.set(PICKING_LAYER)
+    scene.background = null
+    scene.overrideMaterial = null
+    gl.setClearColor(0x000000, 0)
+
+    // Only render the pixel underneath the pointer
+    const x = ((pointer.x + 1) / 2) * size.width
+    const y = ((1 - pointer.y) / 2) * size.height
+    projection.setViewOffset(size.width, size.height, x, y, 1, 1)
+
+    let result: Pick | null = null
+    render(state, camera, objects, 'id')
+    const id = unpack(pixel)
+    if (id > 0 && id <= objects.length) {
+      const object = objects[id - 1]
+      // Indices of instances and points get a pass of their own, so that they aren't limited by the id
+      let element = 0
+      if ((object as THREE.Points).isPoints || (object as THREE.InstancedMesh).isInstancedMesh) {
+        render(state, camera, objects, 'element')
+        element = unpack(pixel)
+      }
+      render(state, camera, objects, 'depth')
+      // Unpack what packDepthToRGBA wrote
+      const depth = pixel[0] / 256 ** 4 + pixel[1] / 256 ** 3 + pixel[2] / 256 ** 2 + pixel[3] / 256
+      result = { object, element, depth }
+    }
+
+    // Restore state
+    if (view?.enabled) {
+      projection.setViewOffset(view.fullWidth, view.fullHeight, view.offsetX, view.offsetY, view.width, view.height)
+    } else {
+      projection.clearViewOffset()
+    }
+    objects.forEach((object, index) => (object.layers.mask = masks[index]))
+    camera.layers.mask = mask
+    scene.background = background
+    scene.overrideMaterial = overrideMaterial
+    gl.setClearColor(clearColor, clearAlpha)
+    gl.setRenderTarget(renderTarget)
+
+    return result
+  }
+
+  function intersect(object: THREE.Object3D, state: RootState) {
+    const camera = state.raycaster.camera
+    if (!picks.has(state)) {
+      if (!picks.size) queueMicrotask(() => picks.clear())
+      picks.set(state, pick(state, camera))
+    }
+
+    const result = picks.get(state)
+    if (!result) return []
+
+    // Only report the pick to the object that was hit or its ancestors
+    let parent: THREE.Object3D | null = result.object
+    while (parent && parent !== object) parent = parent.parent
+    if (!parent) return []
+
+    // Reconstruct the hit along the ray from the picked depth
+    const projection = camera as THREE.PerspectiveCamera | THREE.OrthographicCamera
+    const { near, far } = projection
+    const viewZ = (projection as THREE.PerspectiveCamera).isPerspectiveCamera
+      ? (near * far) / ((far - near) * result.depth - far)
+      : result.depth * (near - far) - near
+    const { ray } = state.raycaster
+    _origin.copy(ray.origin).applyMatrix4(camera.matrixWorldInverse)
+    _direction.copy(ray.direction).transformDirection(camera.matrixWorldInverse)
+    const distance = (viewZ - _origin.z) / _direction.z
+    const intersection: THREE.Intersection = {
+      distance,
+      point: ray.at(distance, new THREE.Vector3()),
+      object: result.object,
+    }
+    if ((result.object as THREE.InstancedMesh).isInstancedMesh) intersection.instanceId = result.element
+    if ((result.object as THREE.Points).isPoints) intersection.index = result.element
+    return [intersection]
+  }
+
+  // The target and materials are recreated by the renderer if picking is used again after disposing
+  function dispose() {
+    target.dispose()
+    for (const pass in materials) materials[pass as PickingPass].dispose()
+    picks.clear()
+  }
+
+  return Object.assign(intersect, { dispose })
+}
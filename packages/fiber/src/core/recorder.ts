@@ -0,0 +1,167 @@
+import type { UseBoundStore } from 'zustand'
+import type { RootState, Size } from './store'
+import { createEvents, DomEvent, Events } from './events'
+
+export type RecordedEvent = {
+  /** Handler of the event manager the event went into, e.g. onPointerMove */
+  name: string
+  /** Time in ms since the recording started */
+  time: number
+  type: string
+  /** Atomic properties of the host event, like offsetX, pointerId or key */
+  init: Record<string, string | number | boolean | null>
+  /** Whether the event came from an element within the event source, rather than the source itself */
+  bubbled: boolean
+  /** Normalized pointer the event was raycast with */
+  pointer: [x: number, y: number]
+  /** Local transform and projection of the default camera */
+  camera: { matrix: number[]; projectionMatrix: number[] }
+  size: Pick<Size, 'width' | 'height' | 'top' | 'left'>
+}
+
+export type EventLog = {
+  version: 1
+  events: RecordedEvent[]
+}
+
+export type EventRecorder = {
+  /** Stops recording, restores the original handlers and returns the log */
+  stop: () => EventLog
+}
+
+export type ReplayOptions = {
+  /** Playback rate relative to the recording, 0 replays all events at once. Default: 0 */
+  speed?: number
+}
+
+/** Swaps the handlers of the event manager and connects them to its current target */
+function reconnect(store: UseBoundStore<RootState>, handlers: Events) {
+  const { events, setEvents } = store.getState()
+  const target = events.connected
+  events.disconnect?.()
+  setEvents({ handlers })
+  if (target) store.getState().events.connect?.(target)
+}
+
+function serialize(name: string, event: Event, start: number, state: RootState): RecordedEvent {
+  const init: RecordedEvent['init'] = {}
+  for (const prop in event) {
+    const value = event[prop as keyof Event]
+    // Skip constants like AT_TARGET, and everything that doesn't survive JSON
+    if (prop.toUpperCase() === prop) continue
+    if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      init[prop] = value
+    }
+  }
+
+  // Keyboard events carry no pointer, they keep the last one
+  if ('offsetX' in event) state.events.compute?.(event as DomEvent, state)
+  const { pointer, camera, size } = state
+  return {
+    name,
+    time: performance.now() - start,
+    type: event.type,
+    init,
+    bubbled: event.target !== event.currentTarget,
+    pointer: [pointer.x, pointer.y],
+    camera: { matrix: camera.matrix.toArray(), projectionMatrix: camera.projectionMatrix.toArray() },
+    size: { width: size.width, height: size.height, top: size.top, left: size.left },
+  }
+}
+
+/**
+ * Records the host events that go into the handlers of a root's event manager, along with its camera and size,
+ * into a serialisable log that can be replayed with `replayEvents`.
+ */
+export function recordEvents(store: UseBoundStore<RootState>): EventRecorder {
+  const handlers = store.getState().events.handlers
+  const log: EventLog = { version: 1, events: [] }
+  if (!handlers) return { stop: () => log }
+
+  const start = performance.now()
+  const recording = Object.keys(handlers).reduce((acc, name) => {
+    const handler = handlers[name as keyof Events]
+    return {
+      ...acc,
+      [name]: (event: Event) => {
+        log.events.push(serialize(name, event, start, store.getState()))
+        handler(event)
+      },
+    }
+  }, {} as Events)
+  reconnect(store, recording)
+
+  return {
+    stop() {
+      reconnect(store, handlers)
+      return log
+    },
+  }
+}
+
+/** Rebuilds a host event, its target ignores pointer capture since the pointer doesn't exist anymore */
+function createEvent(entry: RecordedEvent) {
+  const target = {
+    setPointerCapture() {},
+    releasePointerCapture() {},
+    hasPointerCapture: () => false,
+  }
+  const event = {
+    ...entry.init,
+    type: entry.type,
+    target,
+    currentTarget: entry.bubbled ? {} : target,
+    defaultPrevented: false,
+    preventDefault() {
+      event.defaultPrevented = true
+    },
+    stopPropagation() {},
+  }
+  return event as unknown as DomEvent & KeyboardEvent
+}
+
+/**
+ * Replays a log of `recordEvents` against a root. Camera and size are restored before every event and its
+ * recorded pointer is raycast, so the root doesn't need a connected event manager.
+ */
+export async function replayEvents(
+  store: UseBoundStore<RootState>,
+  log: EventLog,
+  { speed = 0 }: ReplayOptions = {},
+): Promise<void> {
+  const { handlePointer, handleKey } = createEvents(store)
+  let time = 0
+
+  for (const entry of log.events) {
+    if (speed > 0) await new Promise((resolve) => setTimeout(resolve, (entry.time - time) / speed))
+    time = entry.time
+
+    const { size, setSize, setEvents, events } = store.getState()
+    if (size.width !== entry.size.width || size.height !== entry.size.height) {
+      setSize(entry.size.width, entry.size.height, size.updateStyle, entry.size.top, entry.size.left)
+    }
+
+    // Restore the camera after resizing, which updates its projection
+    const { camera } = store.getState()
+    camera.matrix.fromArray(entry.camera.matrix).decompose(camera.position, camera.quaternion, camera.scale)
+    camera.updateMatrixWorld()
+    camera.projectionMatrix.fromArray(entry.camera.projectionMatrix)
+    camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert()
+
+    // Raycast the recorded pointer instead of computing it from the event
+    const compute = events.compute
+    setEvents({
+      compute: (_, state) => {
+        state.pointer.fromArray(entry.pointer)
+        state.raycaster.setFromCamera(state.pointer, state.camera)
+      },
+    })
+    try {
+      const event = createEvent(entry)
+      if (entry.name === 'onKeyDown' || entry.name === 'onKeyUp') handleKey(entry.name)(event)
+      else handlePointer(entry.name)(event)
+    } finally {
+      setEvents({ compute })
+    }
+  }
+}
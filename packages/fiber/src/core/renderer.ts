@@ -1,7 +1,6 @@
 import * as THREE from 'three'
 import { UseBoundStore } from 'zustand'
 import Reconciler from 'react-reconciler'
-import { unstable_IdlePriority as idlePriority, unstable_scheduleCallback as scheduleCallback } from 'scheduler'
 import { DefaultEventPriority } from 'react-reconciler/constants'
 import {
   is,
@@ -14,9 +13,24 @@ import {
   invalidateInstance,
   attach,
   detach,
+  isCollectionAttach,
+  getComponentStack,
 } from './utils'
 import { RootState } from './store'
 import { EventHandlers, removeInteractivity } from './events'
+import {
+  Disposable,
+  Resource,
+  isCounted,
+  isManaged,
+  isOwner,
+  isResource,
+  manageResource,
+  queueDisposal,
+  releaseResources,
+  retainResources,
+} from './resources'
+import { trackCreation, trackUnmount } from './leaks'
 
 export type Root = { fiber: Reconciler.FiberRoot; store: UseBoundStore<RootState> }
 
@@ -27,6 +41,7 @@ export type LocalState = {
   objects: Instance[]
   parent: Instance | null
   primitive?: boolean
+  /** Number of pointer event handlers, objects with any are raycast. Keyboard and focus handlers aren't counted */
   eventCount: number
   handlers: Partial<EventHandlers>
   attach?: AttachType
@@ -74,6 +89,7 @@ export type InstanceProps = {
   visible?: boolean
   dispose?: null
   attach?: AttachType
+  preserve?: boolean | string[]
 }
 
 interface Catalogue {
@@ -85,11 +101,54 @@ interface Catalogue {
 export const catalogue: Catalogue = {}
 const extend = (objects: object): void => void Object.assign(catalogue, objects)
 
+/** Disposes resources that nobody uses anymore, as long as they were created from elements */
+const disposeUnused = (root: UseBoundStore<RootState> | undefined, unused: Resource[]) =>
+  unused.filter(isManaged).forEach((resource) => queueDisposal(root, resource))
+
+/** Counts the resources an instance uses and disposes those it stopped using, unless it opted out */
+function trackResources(instance: Instance) {
+  const unused = retainResources(instance)
+  if (instance.dispose !== null) disposeUnused(instance.__r3f?.root, unused)
+}
+
+/** Fields that carry over to a reconstructed instance, `preserve={true}` picks them by the kind of object */
+function getPreservedFields(instance: Instance, preserve: true | string[]): string[] {
+  if (Array.isArray(preserve)) return preserve
+  const fields = ['userData']
+  if (instance.isObject3D) fields.push('position', 'quaternion', 'scale')
+  if (instance.uniforms) fields.push('uniforms')
+  return fields
+}
+
+/**
+ * Carries state of an instance over to the instance that replaces it, before props are applied so they take
+ * precedence. Classes can take this into their own hands with a `preserveState(previous)` method, which opts them in.
+ */
+function preserveInstance(previous: Instance, next: Instance, preserve?: boolean | string[]) {
+  if (preserve === false) return
+  if (!Array.isArray(preserve) && typeof next.preserveState === 'function') return next.preserveState(previous)
+  if (!preserve) return
+  for (const key of getPreservedFields(next, preserve)) {
+    const value = previous[key]
+    if (value === undefined) continue
+    if (key === 'uniforms' && next.uniforms) {
+      // Only values carry over, the new material may declare different uniforms
+      for (const name in value) if (next.uniforms[name]) next.uniforms[name].value = value[name].value
+    } else if (next[key]?.copy && next[key].constructor === value.constructor) {
+      // Math types can be readonly, like Object3D.position
+      next[key].copy(value)
+    } else next[key] = value
+  }
+}
+
 function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?: () => any) {
   function createInstance(
     type: string,
     { args = [], attach, ...props }: InstanceProps,
     root: UseBoundStore<RootState>,
+    _hostContext?: HostConfig['hostContext'],
+    fiber?: Reconciler.Fiber,
+    previous?: Instance,
   ) {
     let name = `${type[0].toUpperCase()}${type.slice(1)}`
     let instance: Instance
@@ -120,12 +179,20 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
       })
     }
 
+    // Resources that were created here are disposed once nobody uses them anymore
+    if (type !== 'primitive' && isResource(instance)) manageResource(instance)
+    // Remember who created resources in case they outlive their owner
+    if (type !== 'primitive') trackCreation(instance, 'element', () => getComponentStack(fiber))
+
     // Auto-attach geometries and materials
     if (instance.__r3f.attach === undefined) {
       if (instance instanceof THREE.BufferGeometry) instance.__r3f.attach = 'geometry'
       else if (instance instanceof THREE.Material) instance.__r3f.attach = 'material'
     }
 
+    // Carry runtime state over from the instance this one replaces
+    if (previous && type !== 'primitive') preserveInstance(previous, instance, props.preserve)
+
     // It should NOT call onUpdate on object instanciation, because it hasn't been added to the
     // view yet. If the callback relies on references for instance, they won't be ready yet, this is
     // why it passes "true" here
@@ -150,6 +217,9 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
       if (!added) parentInstance.__r3f?.objects.push(child)
       if (!child.__r3f) prepare(child, {})
       child.__r3f.parent = parentInstance
+      // Count the resources of the child, and of a counted parent that it may have been attached to
+      if (child.isObject3D) trackResources(child)
+      if (isOwner(parentInstance)) trackResources(parentInstance)
       updateInstance(child)
       invalidateInstance(child)
     }
@@ -163,7 +233,7 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
     let added = false
     if (child) {
       if (child.__r3f?.attach) {
-        attach(parentInstance, child, child.__r3f.attach)
+        attach(parentInstance, child, child.__r3f.attach, beforeChild)
       } else if (child.isObject3D && parentInstance.isObject3D) {
         child.parent = parentInstance as unknown as THREE.Object3D
         child.dispatchEvent({ type: 'added' })
@@ -177,6 +247,9 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
       if (!added) parentInstance.__r3f?.objects.push(child)
       if (!child.__r3f) prepare(child, {})
       child.__r3f.parent = parentInstance
+      // Count the resources of the child, and of a counted parent that it may have been attached to
+      if (child.isObject3D) trackResources(child)
+      if (isOwner(parentInstance)) trackResources(parentInstance)
       updateInstance(child)
       invalidateInstance(child)
     }
@@ -196,6 +269,7 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
       // Remove attachment
       if (child.__r3f?.attach) {
         detach(parentInstance, child, child.__r3f.attach)
+        if (isOwner(parentInstance)) trackResources(parentInstance)
       } else if (child.isObject3D && parentInstance.isObject3D) {
         parentInstance.remove(child)
         // @ts-ignore
@@ -217,6 +291,11 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
       const isPrimitive = child.__r3f?.primitive
       const shouldDispose = !isPrimitive && (dispose === undefined ? child.dispose !== null : dispose)
 
+      // Geometries, materials and textures are reference counted, those nobody uses anymore are disposed
+      const root = child.__r3f?.root
+      const unused = releaseResources(child)
+      if (shouldDispose) disposeUnused(root, unused)
+
       // Remove nested child objects. Primitives should not have objects and children that are
       // attached to them declaratively ...
       if (!isPrimitive) {
@@ -226,23 +305,11 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
 
       // Remove references
       delete (child as Partial<Instance>).__r3f
+      trackUnmount(child)
 
-      // Dispose item whenever the reconciler feels like it
-      if (shouldDispose && child.dispose && child.type !== 'Scene') {
-        const callback = () => {
-          try {
-            child.dispose()
-          } catch (e) {
-            /* ... */
-          }
-        }
-
-        // Schedule async at runtime, flush sync in testing
-        if (typeof IS_REACT_ACT_ENVIRONMENT === 'undefined') {
-          scheduleCallback(idlePriority, callback)
-        } else {
-          callback()
-        }
+      // Queue the item for disposal on its root, counted resources are left to the registry
+      if (shouldDispose && child.dispose && child.type !== 'Scene' && !(isResource(child) && isCounted(child))) {
+        queueDisposal(root, child as Instance & Disposable)
       }
 
       invalidateInstance(parentInstance)
@@ -258,7 +325,7 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
     const parent = instance.__r3f?.parent
     if (!parent) return
 
-    const newInstance = createInstance(type, newProps, instance.__r3f.root)
+    const newInstance = createInstance(type, newProps, instance.__r3f.root, undefined, fiber, instance)
 
     // https://github.com/pmndrs/react-three-fiber/issues/1348
     // When args change the instance has to be re-constructed, which then
@@ -272,14 +339,22 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
 
     instance.__r3f.objects.forEach((child) => appendChild(newInstance, child))
     instance.__r3f.objects = []
+    // Take over the resources before they are released along with the previous instance
+    if (isOwner(instance)) trackResources(newInstance)
 
-    if (!instance.__r3f.autoRemovedBeforeAppend) {
+    if (isCollectionAttach(newInstance.__r3f.attach)) {
+      // Take the place of the previous instance in its array or Set, so that it keeps its order
+      insertBefore(parent, newInstance, instance)
       removeChild(parent, instance)
+    } else {
+      if (!instance.__r3f.autoRemovedBeforeAppend) {
+        removeChild(parent, instance)
+      }
+      if (newInstance.parent) {
+        newInstance.__r3f.autoRemovedBeforeAppend = true
+      }
+      appendChild(parent, newInstance)
     }
-    if (newInstance.parent) {
-      newInstance.__r3f.autoRemovedBeforeAppend = true
-    }
-    appendChild(parent, newInstance)
 
     // Re-bind event handlers on the initial root
     if (newInstance.raycast && newInstance.__r3f.eventCount) {
@@ -390,7 +465,10 @@ function createRenderer<TCanvas>(_roots: Map<TCanvas, Root>, _getEventPriority?:
       // Reconstruct when args or <primitive object={...} have changes
       if (reconstruct) switchInstance(instance, type, newProps, fiber)
       // Otherwise just overwrite props
-      else applyProps(instance, diff)
+      else {
+        applyProps(instance, diff)
+        if (isOwner(instance)) trackResources(instance)
+      }
     },
     commitMount(instance, _type, _props, _int) {
       // https://github.com/facebook/react/issues/20271
@@ -0,0 +1,186 @@
+import * as THREE from 'three'
+import { unstable_IdlePriority as idlePriority, unstable_scheduleCallback as scheduleCallback } from 'scheduler'
+import type { StoreApi } from 'zustand'
+import type { RootState } from './store'
+
+export type Resource = THREE.BufferGeometry | THREE.Material | THREE.Texture
+
+export type Disposable = { dispose: () => void }
+
+type Store = Pick<StoreApi<RootState>, 'getState'>
+
+export type ResourceStats = {
+  /** Geometries that are in use */
+  geometries: number
+  /** Materials that are in use */
+  materials: number
+  /** Textures that are in use by materials */
+  textures: number
+}
+
+// The registry is process-wide rather than per root, since resources can be shared between roots and portals.
+// Owners of every resource that is in use, an owner is an object or a material
+const references = new Map<Resource, Set<object>>()
+// Resources that an owner holds on to
+const owned = new WeakMap<object, Resource[]>()
+// Resources that were counted at some point, they are disposed by the registry rather than the reconciler
+const counted = new WeakSet<Resource>()
+// Resources that were created from elements, only these are disposed. Those that were passed in as primitives or
+// props, or that were loaded, may be kept outside of React
+const managed = new WeakSet<Resource>()
+const listeners = new Set<() => void>()
+const stats: ResourceStats = { geometries: 0, materials: 0, textures: 0 }
+
+const getKind = (resource: Resource): keyof ResourceStats =>
+  (resource as THREE.BufferGeometry).isBufferGeometry
+    ? 'geometries'
+    : (resource as THREE.Material).isMaterial
+    ? 'materials'
+    : 'textures'
+
+export const isResource = (value: unknown): value is Resource => {
+  if (typeof value !== 'object' || value === null) return false
+  const resource = value as Partial<THREE.BufferGeometry & THREE.Material & THREE.Texture>
+  return !!(resource.isBufferGeometry || resource.isMaterial || resource.isTexture)
+}
+
+/** Collects the geometry and materials of an object, or the textures of a material */
+function collectResources(owner: object): Resource[] {
+  const resources: Resource[] = []
+  const add = (value: unknown) => isResource(value) && !resources.includes(value) && resources.push(value)
+  if ((owner as THREE.Material).isMaterial) {
+    const material = owner as THREE.Material & { uniforms?: Record<string, THREE.IUniform | undefined> }
+    for (const key in material) if (key !== 'uniforms') add(material[key as keyof THREE.Material])
+    for (const key in material.uniforms) add(material.uniforms[key]?.value)
+  } else if ((owner as THREE.Object3D).isObject3D) {
+    const { geometry, material } = owner as Partial<THREE.Mesh>
+    add(geometry)
+    if (Array.isArray(material)) material.forEach(add)
+    else add(material)
+  }
+  return resources
+}
+
+function retain(resource: Resource, owner: object) {
+  let owners = references.get(resource)
+  if (!owners) {
+    references.set(resource, (owners = new Set()))
+    counted.add(resource)
+    stats[getKind(resource)]++
+    // Materials hold on to their textures while they are in use
+    if ((resource as THREE.Material).isMaterial) retainResources(resource)
+  }
+  owners.add(owner)
+}
+
+function release(resource: Resource, owner: object, unused: Resource[]) {
+  const owners = references.get(resource)
+  if (!owners?.delete(owner) || owners.size) return
+  references.delete(resource)
+  stats[getKind(resource)]--
+  unused.push(resource)
+  if ((resource as THREE.Material).isMaterial) unused.push(...releaseResources(resource))
+}
+
+const notify = () => listeners.forEach((listener) => listener())
+
+/**
+ * Counts the resources an object or material currently uses, and releases those it stopped using.
+ * Returns resources that are no longer used by anyone.
+ */
+export function retainResources(owner: object): Resource[] {
+  const previous = owned.get(owner) ?? []
+  const current = collectResources(owner)
+  const unused: Resource[] = []
+  current.forEach((resource) => retain(resource, owner))
+  previous.forEach((resource) => !current.includes(resource) && release(resource, owner, unused))
+  owned.set(owner, current)
+  notify()
+  return unused
+}
+
+/** Releases all resources of an owner, returns resources that are no longer used by anyone */
+export function releaseResources(owner: object): Resource[] {
+  const unused: Resource[] = []
+  owned.get(owner)?.forEach((resource) => release(resource, owner, unused))
+  owned.delete(owner)
+  notify()
+  return unused
+}
+
+/** Whether the resources of an owner are counted */
+export const isOwner = (owner: object) => owned.has(owner)
+
+/** Whether a resource is counted, in which case the registry decides when it is disposed */
+export const isCounted = (resource: Resource) => counted.has(resource)
+
+/** Marks a resource that was created from an element, so it is disposed once nobody uses it anymore */
+export const manageResource = (resource: Resource) => void managed.add(resource)
+
+export const isManaged = (resource: Resource) => managed.has(resource)
+
+/** Counts the resources that are in use across all roots */
+export const getResourceStats = (): ResourceStats => ({ ...stats })
+
+/** Calls a listener whenever resources are retained or released */
+export function subscribeResources(listener: () => void) {
+  listeners.add(listener)
+  return () => void listeners.delete(listener)
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now())
+
+function dispose(object: Disposable) {
+  try {
+    object.dispose()
+  } catch (e) {
+    /* ... */
+  }
+}
+
+/** Disposes queued objects until the root's disposeBudget is spent, the rest continues once the scheduler is idle */
+function drainDisposals(store: Store, budget = store.getState().disposeBudget): void {
+  const { internal, onDisposed } = store.getState()
+  const { disposals } = internal
+  // The queue may have been flushed in the meantime
+  if (!disposals.scheduled) return
+  const start = now()
+  // Dispose at least one object per frame, so the queue drains even when a single one takes longer
+  do {
+    const object = disposals.queue.shift()
+    if (!object) break
+    dispose(object)
+    disposals.disposed.push(object)
+  } while (now() - start < budget)
+
+  // The rest continues at idle priority, which doesn't depend on the root's frames or on requestAnimationFrame
+  if (disposals.queue.length) return void scheduleCallback(idlePriority, () => drainDisposals(store))
+
+  disposals.scheduled = false
+  const disposed = disposals.disposed
+  disposals.disposed = []
+  onDisposed?.(disposed)
+}
+
+function scheduleDrain(store: Store) {
+  // Flush after the current commit in testing, schedule at idle priority at runtime
+  if (typeof IS_REACT_ACT_ENVIRONMENT !== 'undefined') Promise.resolve().then(() => drainDisposals(store))
+  else scheduleCallback(idlePriority, () => drainDisposals(store))
+}
+
+/** Queues an object to be disposed on the root, objects without a root are disposed right away */
+export function queueDisposal(store: Store | null | undefined, object: Disposable) {
+  if (!store) return dispose(object)
+  const { disposals } = store.getState().internal
+  disposals.queue.push(object)
+  if (disposals.scheduled) return
+  disposals.scheduled = true
+  scheduleDrain(store)
+}
+
+/** Disposes everything that is queued on a root right away */
+export function flushDisposals(store: Store): Promise<void> {
+  const { disposals } = store.getState().internal
+  if (disposals.scheduled) drainDisposals(store, Infinity)
+  return Promise.resolve()
+}
@@ -1,9 +1,18 @@
 import * as THREE from 'three'
 import * as React from 'react'
 import create, { GetState, SetState, StoreApi, UseBoundStore } from 'zustand'
-import { DomEvent, EventManager, PointerCaptureTarget, ThreeEvent } from './events'
+import {
+  changeFocus,
+  DomEvent,
+  DragState,
+  EventManager,
+  GestureState,
+  PointerCaptureTarget,
+  ThreeEvent,
+} from './events'
 import { _XRFrame, calculateDpr, Camera, isOrthographicCamera, updateCamera } from './utils'
-import { Advance, Invalidate } from './loop'
+import { Advance, FrameSource, Invalidate } from './loop'
+import { Disposable, flushDisposals } from './resources'
 
 // Keys that shouldn't be copied between R3F stores
 export const privateKeys = [
@@ -15,6 +24,7 @@ export const privateKeys = [
   'events',
   'invalidate',
   'advance',
+  'step',
   'size',
   'viewport',
 ] as const
@@ -25,10 +35,82 @@ export interface Intersection extends THREE.Intersection {
   eventObject: THREE.Object3D
 }
 
+/** Named stages of a frame, executed in this order. `postRender` runs after the scene was rendered */
+export type FramePhase = 'input' | 'physics' | 'animation' | 'preRender' | 'postRender'
+export const framePhases: FramePhase[] = ['input', 'physics', 'animation', 'preRender', 'postRender']
+
+// Subscriptions with a positive priority render the scene themselves, so they run after all phases
+// but postRender, whichever phase they were scheduled into
+const rank = ({ phase, priority }: Subscription) =>
+  priority > 0 && phase !== 'postRender' ? framePhases.indexOf('preRender') + 0.5 : framePhases.indexOf(phase)
+
+export type FrameOptions = {
+  /**
+   * Order within a phase, a positive priority takes over the render-loop. These callbacks run after all
+   * phases but postRender
+   */
+  priority?: number
+  /** The phase this callback runs in, default: "animation" */
+  phase?: FramePhase
+  /** Allows the loop to defer this callback to the next frame once the frame budget is spent */
+  deferrable?: boolean
+  /** Name the subscription is recorded under when profiling. Default: the owning component's display name */
+  name?: string
+  /** Calls the callback zero or more times per frame with this constant delta (in seconds) */
+  fixedStep?: number
+  /** Caps the amount of fixed steps per frame, remaining time is dropped. Default: 5 */
+  maxSubSteps?: number
+  /** Called once per frame after all fixed steps with the interpolation alpha between the last two steps */
+  interpolate?: InterpolateCallback
+}
+
 export type Subscription = {
   ref: React.MutableRefObject<RenderCallback>
   priority: number
   store: UseBoundStore<RootState, StoreApi<RootState>>
+  name: string
+  phase: FramePhase
+  deferrable: boolean
+  /** Whether this subscription was skipped in the last frame */
+  deferred: boolean
+  /** Delta that accumulated while the subscription was deferred */
+  debt: number
+  fixedStep?: number
+  maxSubSteps: number
+  /** Time that was not yet consumed by fixed steps */
+  accumulator: number
+  interpolate?: React.MutableRefObject<InterpolateCallback | undefined>
+}
+
+export type SubscriptionProfile = {
+  /** Display name of the component that owns the subscription */
+  name: string
+  phase: FramePhase
+  priority: number
+  /** Time in ms the callback took */
+  duration: number
+}
+
+export type FrameProfile = {
+  timestamp: number
+  /** Time in ms from the first subscriber until the last */
+  total: number
+  /** Time in ms the default gl.render call took */
+  render: number
+  /** Time in ms the global addEffect, addAfterEffect and addTail callbacks took */
+  effects: { before: number; after: number; tail: number }
+  subscribers: SubscriptionProfile[]
+}
+
+export type Profiler = {
+  /** Amount of frames that are kept */
+  size: number
+  /** Rolling history of recorded frames, oldest first */
+  history: FrameProfile[]
+}
+
+export type SubscriptionOptions = Omit<FrameOptions, 'priority' | 'interpolate'> & {
+  interpolate?: React.MutableRefObject<InterpolateCallback | undefined>
 }
 
 export type Dpr = number | [min: number, max: number]
@@ -54,6 +136,7 @@ export type Viewport = Size & {
 }
 
 export type RenderCallback = (state: RootState, delta: number, frame?: _XRFrame) => void
+export type InterpolateCallback = (state: RootState, alpha: number) => void
 
 export type Performance = {
   /** Current performance normal, between min and max */
@@ -66,6 +149,18 @@ export type Performance = {
   debounce: number
   /** Sets current to min, puts the system in regression */
   regress: () => void
+  /** Whether quality and dpr follow the measured frame time, default: false */
+  adaptive: boolean
+  /** Average frame time in ms above which quality is lowered, default: 20 */
+  target: number
+  /** Fraction of the target frame time below which quality is raised again, default: 0.85 */
+  hysteresis: number
+  /** Amount of frames the frame time is averaged over, default: 30 */
+  samples: number
+  /** Amount quality changes by per adjustment, default: 0.25 */
+  step: number
+  /** Adaptive quality between 0 and 1, scales dpr within its range */
+  quality: number
 }
 
 export type Renderer = { render: (scene: THREE.Scene, camera: THREE.Camera) => any }
@@ -75,17 +170,38 @@ export type InternalState = {
   active: boolean
   priority: number
   frames: number
+  /** A custom source of frames, the root is rendered outside of the shared requestAnimationFrame loop */
+  frameSource: FrameSource | null
+  /** Handle of the frame that was requested from the frame source */
+  frameRequest: unknown
+  /** Delta of a pending single step while the root is paused */
+  step: number
+  /** Pixel ratio or range the adaptive performance monitor scales within */
+  dpr: Dpr
+  /** Consecutive frame times gathered by the adaptive performance monitor */
+  frameTimes: { timestamp: number | undefined; total: number; count: number }
   lastEvent: React.MutableRefObject<DomEvent | null>
   interaction: THREE.Object3D[]
   hovered: Map<string, ThreeEvent<DomEvent>>
+  /** Pending onPointerEnterDelayed timers of hovered objects, by hover id */
+  dwells: Map<string, ReturnType<typeof setTimeout>>
   subscribers: Subscription[]
   capturedMap: Map<number, Map<THREE.Object3D, PointerCaptureTarget>>
   initialClick: [x: number, y: number]
   initialHits: THREE.Object3D[]
+  /** The object that receives keyboard events */
+  focused: THREE.Object3D | null
+  /** Pressed or dragged objects by pointer id */
+  drags: Map<number, DragState>
+  /** Pointers pressing objects with gesture handlers, by object */
+  gestures: Map<THREE.Object3D, GestureState>
+  /** Objects waiting to be disposed, and those that were disposed since the queue started draining */
+  disposals: { queue: Disposable[]; disposed: Disposable[]; scheduled: boolean }
   subscribe: (
     callback: React.MutableRefObject<RenderCallback>,
     priority: number,
     store: UseBoundStore<RootState, StoreApi<RootState>>,
+    options?: SubscriptionOptions,
   ) => () => void
 }
 
@@ -122,6 +238,16 @@ export type RootState = {
   flat: boolean
   /** Render loop flags */
   frameloop: 'always' | 'demand' | 'never'
+  /** Multiplier for the clock's delta, allows for slow-motion or fast-forwarding */
+  timeScale: number
+  /** Whether time is frozen, subscribers receive a delta of 0 while the scene keeps rendering */
+  paused: boolean
+  /** Records frame timings while profiling is enabled, mutated in place every frame */
+  profiler: Profiler | null
+  /** Time in ms that subscribers may take per frame before deferrable ones are pushed to the next frame */
+  frameBudget: number
+  /** Time in ms that queued disposals may take per idle callback, the rest is disposed in the next one */
+  disposeBudget: number
   /** Adaptive performance interface */
   performance: Performance
   /** Reactive pixel-size of the canvas */
@@ -138,6 +264,8 @@ export type RootState = {
   invalidate: (frames?: number) => void
   /** Advance (render) one step */
   advance: (timestamp: number, runGlobalEffects?: boolean) => void
+  /** Advances a paused root by a single frame of the given delta in seconds, default: 1/60 */
+  step: (delta?: number) => void
   /** Shortcut to setting the event layer */
   setEvents: (events: Partial<EventManager<any>>) => void
   /**
@@ -155,8 +283,14 @@ export type RootState = {
   setDpr: (dpr: Dpr) => void
   /** Shortcut to frameloop flags */
   setFrameloop: (frameloop?: 'always' | 'demand' | 'never') => void
+  /** Moves keyboard focus to an object with a tabIndex, or clears it when null */
+  focus: (object: THREE.Object3D | null) => void
   /** When the canvas was clicked but nothing was hit */
   onPointerMissed?: (event: MouseEvent) => void
+  /** Called with the disposed objects once the disposal queue has been drained */
+  onDisposed?: (objects: Disposable[]) => void
+  /** Disposes every object that is queued right away */
+  flushDisposals: () => Promise<void>
   /** If this state model is layered (via createPortal) then this contains the previous layer */
   previousRoot?: UseBoundStore<RootState, StoreApi<RootState>>
   /** Internals */
@@ -165,6 +299,17 @@ export type RootState = {
 
 const context = React.createContext<UseBoundStore<RootState>>(null!)
 
+// While a root is paused or its time is scaled, only the render-loop advances its clock. Reading the clock from
+// user code then returns the time the loop has reached instead of moving it in real time
+function createClock(get: () => RootState): THREE.Clock {
+  const clock = new THREE.Clock()
+  clock.getDelta = () => {
+    const { paused, timeScale } = get()
+    return paused || timeScale !== 1 ? 0 : THREE.Clock.prototype.getDelta.call(clock)
+  }
+  return clock
+}
+
 const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<RootState> => {
   const rootState = create<RootState>((set, get) => {
     const position = new THREE.Vector3()
@@ -210,18 +355,29 @@ const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<Ro
 
       invalidate: (frames = 1) => invalidate(get(), frames),
       advance: (timestamp: number, runGlobalEffects?: boolean) => advance(timestamp, runGlobalEffects, get()),
+      step: (delta = 1 / 60) => {
+        const state = get()
+        state.internal.step = delta
+        invalidate(state)
+      },
 
       legacy: false,
       linear: false,
       flat: false,
 
       controls: null,
-      clock: new THREE.Clock(),
+      clock: createClock(get),
       pointer,
       mouse: pointer,
 
       frameloop: 'always',
+      timeScale: 1,
+      paused: false,
+      profiler: null,
+      frameBudget: Infinity,
+      disposeBudget: 5,
       onPointerMissed: undefined,
+      onDisposed: undefined,
 
       performance: {
         current: 1,
@@ -240,6 +396,12 @@ const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<Ro
             state.performance.debounce,
           )
         },
+        adaptive: false,
+        target: 20,
+        hysteresis: 0.85,
+        samples: 30,
+        step: 0.25,
+        quality: 1,
       },
 
       size: { width: 0, height: 0, top: 0, left: 0, updateStyle: false },
@@ -265,7 +427,9 @@ const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<Ro
       },
       setDpr: (dpr: Dpr) =>
         set((state) => {
-          const resolved = calculateDpr(dpr)
+          // Remember the range, the adaptive performance monitor scales within it
+          state.internal.dpr = dpr
+          const resolved = calculateDpr(dpr, state.performance.quality)
           return { viewport: { ...state.viewport, dpr: resolved, initialDpr: state.viewport.initialDpr || resolved } }
         }),
       setFrameloop: (frameloop: 'always' | 'demand' | 'never' = 'always') => {
@@ -274,6 +438,7 @@ const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<Ro
         // if frameloop === "never" clock.elapsedTime is updated using advance(timestamp)
         clock.stop()
         clock.elapsedTime = 0
+        clock.oldTime = 0
 
         if (frameloop !== 'never') {
           clock.start()
@@ -281,25 +446,52 @@ const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<Ro
         }
         set(() => ({ frameloop }))
       },
+      focus: (object: THREE.Object3D | null) => {
+        const { events, internal } = get()
+        // Like DOM elements, only objects with a tabIndex can receive focus
+        if (object && (object as THREE.Object3D & { tabIndex?: number }).tabIndex === undefined) return
+        // Key events only arrive while the event source has focus
+        if (object) events.connected?.focus?.({ preventScroll: true })
+        changeFocus(internal, object)
+      },
+      flushDisposals: () => flushDisposals({ getState: get }),
 
       previousRoot: undefined,
       internal: {
         active: false,
         priority: 0,
         frames: 0,
+        frameSource: null,
+        frameRequest: undefined,
+        step: 0,
+        dpr: 1,
+        frameTimes: { timestamp: undefined, total: 0, count: 0 },
         lastEvent: React.createRef(),
 
         interaction: [],
         hovered: new Map<string, ThreeEvent<DomEvent>>(),
+        dwells: new Map(),
         subscribers: [],
         initialClick: [0, 0],
         initialHits: [],
         capturedMap: new Map(),
+        focused: null,
+        drags: new Map(),
+        gestures: new Map(),
+        disposals: { queue: [], disposed: [], scheduled: false },
 
         subscribe: (
           ref: React.MutableRefObject<RenderCallback>,
           priority: number,
           store: UseBoundStore<RootState, StoreApi<RootState>>,
+          {
+            name = 'Anonymous',
+            phase = 'animation',
+            deferrable = false,
+            fixedStep,
+            maxSubSteps = 5,
+            interpolate,
+          }: SubscriptionOptions = {},
         ) => {
           const internal = get().internal
           // If this subscription was given a priority, it takes rendering into its own hands
@@ -307,10 +499,23 @@ const createStore = (invalidate: Invalidate, advance: Advance): UseBoundStore<Ro
           // As long as this flag is positive there can be no internal rendering at all
           // because there could be multiple render subscriptions
           internal.priority = internal.priority + (priority > 0 ? 1 : 0)
-          internal.subscribers.push({ ref, priority, store })
-          // Register subscriber and sort layers from lowest to highest, meaning,
+          internal.subscribers.push({
+            ref,
+            priority,
+            store,
+            name,
+            phase,
+            deferrable,
+            deferred: false,
+            debt: 0,
+            fixedStep,
+            maxSubSteps,
+            accumulator: 0,
+            interpolate,
+          })
+          // Register subscriber and sort phases in order, then layers from lowest to highest, meaning,
           // highest priority renders last (on top of the other frames)
-          internal.subscribers = internal.subscribers.sort((a, b) => a.priority - b.priority)
+          internal.subscribers = internal.subscribers.sort((a, b) => rank(a) - rank(b) || a.priority - b.priority)
           return () => {
             const internal = get().internal
             if (internal?.subscribers) {
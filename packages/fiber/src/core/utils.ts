@@ -2,6 +2,7 @@
 import * as THREE from 'three'
 import * as React from 'react'
 import { UseBoundStore } from 'zustand'
+import type { Fiber } from 'react-reconciler'
 import { EventHandlers } from './events'
 import { AttachType, catalogue, Instance, InstanceProps, LocalState } from './renderer'
 import { Dpr, Renderer, RootState, Size } from './store'
@@ -48,12 +49,38 @@ export const useIsomorphicLayoutEffect =
     ? React.useLayoutEffect
     : React.useEffect
 
+// Names components, including those wrapped in memo or forwardRef, host elements have none
+function getComponentName(type: unknown): string | undefined {
+  if (typeof type === 'function') return (type as React.ComponentType).displayName || type.name
+  if (typeof type !== 'object' || !type) return undefined
+  const { displayName, render, type: inner } = type as { displayName?: string; render?: unknown; type?: unknown }
+  return displayName ?? getComponentName(render ?? inner)
+}
+
+/** Returns the display name of the component a fiber belongs to, if any */
+export function getOwnerName(fiber: Fiber | null | undefined): string | undefined {
+  return getComponentName(fiber?.type)
+}
+
+/** Returns the names of the components above a fiber, innermost first */
+export function getComponentStack(fiber: Fiber | null | undefined): string[] {
+  const stack: string[] = []
+  for (; fiber; fiber = fiber.return) {
+    const name = getComponentName(fiber.type)
+    if (name) stack.push(name)
+  }
+  return stack
+}
+
 export function useMutableCallback<T>(fn: T) {
   const ref = React.useRef<T>(fn)
   useIsomorphicLayoutEffect(() => void (ref.current = fn), [fn])
   return ref
 }
 
+// Loader requests that are in flight, these are awaited before capturing frames
+export const pendingLoads = new Set<Promise<unknown>>()
+
 export type SetBlock = false | Promise<null> | null
 export type UnblockProps = { set: React.Dispatch<React.SetStateAction<SetBlock>>; children: React.ReactNode }
 
@@ -95,11 +122,14 @@ export type ObjectMap = {
   materials: { [name: string]: THREE.Material }
 }
 
-export function calculateDpr(dpr: Dpr) {
+export function calculateDpr(dpr: Dpr, quality = 1) {
   // Err on the side of progress by assuming 2x dpr if we can't detect it
   // This will happen in workers where window is defined but dpr isn't.
   const target = typeof window !== 'undefined' ? window.devicePixelRatio ?? 2 : 1
-  return Array.isArray(dpr) ? Math.min(Math.max(dpr[0], target), dpr[1]) : dpr
+  if (!Array.isArray(dpr)) return dpr
+  // Lower quality scales the pixel ratio down towards the lower bound
+  const max = Math.min(Math.max(dpr[0], target), dpr[1])
+  return max - (max - dpr[0]) * (1 - quality)
 }
 
 /**
@@ -210,42 +240,97 @@ export function prepare<T = THREE.Object3D>(object: T, state?: Partial<LocalStat
   return object
 }
 
-function resolve(instance: Instance, key: string) {
+// Maps are entered and written by key, anything else by property
+const read = (target: any, key: string) => (target instanceof Map ? target.get(key) : target[key])
+const write = (target: any, key: string, value: unknown) =>
+  void (target instanceof Map ? target.set(key, value) : (target[key] = value))
+
+function resolve(instance: Instance, key: string, path = key) {
   let target = instance
   if (key.includes('-')) {
     const entries = key.split('-')
     const last = entries.pop() as string
-    target = entries.reduce((acc, key) => acc[key], instance)
+    target = entries.reduce((acc, key, i) => {
+      const value = read(acc, key)
+      if (value == null)
+        throw new Error(`R3F: Cannot attach to "${path}", "${entries.slice(0, i + 1).join('-')}" is ${value}!`)
+      return value
+    }, instance)
     return { target, key: last }
   } else return { target, key }
 }
 
 // Checks if a dash-cased string ends with an integer
 const INDEX_REGEX = /-\d+$/
+// Checks if a string ends with an append (foo[]) or insert (foo[1]) mode
+const MODE_REGEX = /\[(\d*)\]$/
+
+/** Whether an attach type adds to an array or Set, rather than assigning */
+export const isCollectionAttach = (type: AttachType | undefined) => is.str(type) && MODE_REGEX.test(type)
 
-export function attach(parent: Instance, child: Instance, type: AttachType) {
+/**
+ * Attaches a child to its parent. Children that are appended to an array or Set go before the sibling they
+ * were inserted before, if it is part of the same collection, so that they keep the order of the elements.
+ */
+export function attach(parent: Instance, child: Instance, type: AttachType, before?: Instance) {
   if (is.str(type)) {
+    // Append to an array or Set (foo[]), or insert into an array (foo[1]), creating an array if there is none
+    const mode = type.match(MODE_REGEX)
+    if (mode) {
+      const { target, key } = resolve(parent, type.replace(MODE_REGEX, ''), type)
+      if (read(target, key) == null) write(target, key, [])
+      const collection = read(target, key)
+      const index = mode[1] ? Number(mode[1]) : undefined
+      if (Array.isArray(collection)) {
+        const next = before ? collection.indexOf(before) : -1
+        collection.splice(index ?? (next === -1 ? collection.length : next), 0, child)
+      } else if (collection instanceof Set && index === undefined) {
+        collection.add(child)
+        if (before && collection.has(before)) {
+          // Sets keep insertion order, so they are refilled to move the child in front of its sibling
+          const items = Array.from(collection).filter((item) => item !== child)
+          items.splice(items.indexOf(before), 0, child)
+          collection.clear()
+          items.forEach((item) => collection.add(item))
+        }
+      } else
+        throw new Error(`R3F: Cannot attach to "${type}", it is not an array${index === undefined ? ' or Set' : ''}!`)
+      return
+    }
+
     // If attaching into an array (foo-0), create one
     if (INDEX_REGEX.test(type)) {
       const root = type.replace(INDEX_REGEX, '')
-      const { target, key } = resolve(parent, root)
-      if (!Array.isArray(target[key])) target[key] = []
+      const { target, key } = resolve(parent, root, type)
+      const value = read(target, key)
+      if (!Array.isArray(value) && !(value instanceof Map)) write(target, key, [])
     }
 
     const { target, key } = resolve(parent, type)
-    child.__r3f.previousAttach = target[key]
-    target[key] = child
+    child.__r3f.previousAttach = read(target, key)
+    write(target, key, child)
   } else child.__r3f.previousAttach = type(parent, child)
 }
 
 export function detach(parent: Instance, child: Instance, type: AttachType) {
   if (is.str(type)) {
-    const { target, key } = resolve(parent, type)
-    const previous = child.__r3f.previousAttach
-    // When the previous value was undefined, it means the value was never set to begin with
-    if (previous === undefined) delete target[key]
-    // Otherwise set the previous value
-    else target[key] = previous
+    if (MODE_REGEX.test(type)) {
+      // Remove the child itself, so that its siblings keep their order
+      const { target, key } = resolve(parent, type.replace(MODE_REGEX, ''), type)
+      const collection = read(target, key)
+      if (collection instanceof Set) collection.delete(child)
+      else if (Array.isArray(collection) && collection.includes(child)) collection.splice(collection.indexOf(child), 1)
+    } else {
+      const { target, key } = resolve(parent, type)
+      const previous = child.__r3f.previousAttach
+      // When the previous value was undefined, it means the value was never set to begin with
+      if (previous === undefined) {
+        if (target instanceof Map) target.delete(key)
+        else delete target[key]
+      }
+      // Otherwise set the previous value
+      else write(target, key, previous)
+    }
   } else child.__r3f?.previousAttach?.(parent, child)
   delete child.__r3f?.previousAttach
 }
@@ -275,7 +360,12 @@ export function diffProps(
     // When props match bail out
     if (is.equ(value, previous[key])) return
     // Collect handlers and bail out
-    if (/^on(Pointer|Click|DoubleClick|ContextMenu|Wheel)/.test(key)) return changes.push([key, value, true, []])
+    if (/^on(Pointer|Click|DoubleClick|ContextMenu|Wheel|Key|Focus|Blur|Drag|Pinch|RotateGesture|Pan)/.test(key))
+      return changes.push([key, value, true, []])
+    // Accessibility props are only read by the accessibility mirror
+    if (key === 'role' || key.startsWith('aria-')) return
+    // Preserved fields are only read when the instance is reconstructed
+    if (key === 'preserve') return
     // Split dashed props
     let entries: string[] = []
     if (key.includes('-')) entries = key.split('-')
@@ -295,6 +385,9 @@ export function diffProps(
   return { memoized, changes }
 }
 
+// Keyboard and focus events go to the focused object, their handlers don't make an object a raycast target
+const isPointerHandler = (key: string) => !/^on(Key|Focus|Blur)/.test(key)
+
 const __DEV__ = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production'
 
 // This function applies a set of changes to the instance
@@ -367,7 +460,7 @@ export function applyProps(instance: Instance, data: InstanceProps | DiffSet) {
     if (isEvent) {
       if (value) localState.handlers[key as keyof EventHandlers] = value as any
       else delete localState.handlers[key as keyof EventHandlers]
-      localState.eventCount = Object.keys(localState.handlers).length
+      localState.eventCount = Object.keys(localState.handlers).filter(isPointerHandler).length
     }
     // Special treatment for objects with support for set/copy, and layers
     else if (targetProp && targetProp.set && (targetProp.copy || targetProp instanceof THREE.Layers)) {
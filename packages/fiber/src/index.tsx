@@ -9,13 +9,34 @@ export type {
   Size,
   Viewport,
   RenderCallback,
+  InterpolateCallback,
+  FrameOptions,
+  FramePhase,
+  FrameProfile,
+  SubscriptionProfile,
+  Profiler,
   Performance,
   RootState,
 } from './core/store'
-export type { ThreeEvent, Events, EventManager, ComputeFunction } from './core/events'
+export type {
+  ThreeEvent,
+  ThreeKeyboardEvent,
+  ThreeFocusEvent,
+  ThreeDragEvent,
+  ThreeGestureEvent,
+  Events,
+  EventManager,
+  EventTrace,
+  ComputeFunction,
+  IntersectFunction,
+} from './core/events'
+export type { PickingOptions, PickingPass } from './core/picking'
+export type { EventLog, RecordedEvent, EventRecorder, ReplayOptions } from './core/recorder'
+export type { Disposable, Resource, ResourceStats } from './core/resources'
+export type { Leak, LeakKind, LeakDetector, LeakDetectorOptions } from './core/leaks'
 export { createEvents } from './core/events'
 export type { ObjectMap, Camera } from './core/utils'
 export * from './web/Canvas'
 export { createPointerEvents as events } from './web/events'
-export type { GlobalRenderCallback, GlobalEffectType } from './core/loop'
+export type { GlobalRenderCallback, GlobalEffectType, FrameCallback, FrameSource, ManualFrameSource } from './core/loop'
 export * from './core'
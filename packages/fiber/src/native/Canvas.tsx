@@ -32,11 +32,19 @@ const CanvasImpl = /*#__PURE__*/ React.forwardRef<View, Props>(
       legacy,
       orthographic,
       frameloop,
+      frameSource,
+      frameBudget,
+      disposeBudget,
+      timeScale,
+      paused,
+      profile,
       performance,
       raycaster,
+      raycastLayers,
       camera,
       scene,
       onPointerMissed,
+      onDisposed,
       onCreated,
       ...props
     },
@@ -103,8 +111,15 @@ const CanvasImpl = /*#__PURE__*/ React.forwardRef<View, Props>(
         legacy,
         orthographic,
         frameloop,
+        frameSource,
+        frameBudget,
+        disposeBudget,
+        timeScale,
+        paused,
+        profile,
         performance,
         raycaster,
+        raycastLayers,
         camera,
         scene,
         // expo-gl can only render at native dpr/resolution
@@ -113,6 +128,7 @@ const CanvasImpl = /*#__PURE__*/ React.forwardRef<View, Props>(
         size: { width, height, top, left },
         // Pass mutable reference to onPointerMissed so it's free to update
         onPointerMissed: (...args) => handlePointerMissed.current?.(...args),
+        onDisposed,
         // Overwrite onCreated to apply RN bindings
         onCreated: (state: RootState) => {
           // Bind events after creation
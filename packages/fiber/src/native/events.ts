@@ -10,13 +10,18 @@ export function createTouchEvents(store: UseBoundStore<RootState>): EventManager
   const handleTouch = (event: GestureResponderEvent, name: string): true => {
     event.persist()
 
-    // Apply offset
-    ;(event as any).nativeEvent.offsetX = event.nativeEvent.locationX
-    ;(event as any).nativeEvent.offsetY = event.nativeEvent.locationY
-
-    // Emulate DOM event
+    // Emulate a DOM event for every touch that changed, with its own pointerId so gestures can tell them apart
+    const { changedTouches } = event.nativeEvent
+    const touches = changedTouches?.length ? changedTouches : [event.nativeEvent]
     const callback = handlePointer(name)
-    callback(event.nativeEvent as any)
+    for (const touch of touches) {
+      callback({
+        ...event.nativeEvent,
+        pointerId: Number(touch.identifier),
+        offsetX: touch.locationX,
+        offsetY: touch.locationY,
+      } as any)
+    }
 
     return true
   }
@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import type { AriaAttributes, AriaRole } from 'react'
 import { EventHandlers } from './core/events'
 import { AttachType } from './core/renderer'
 
@@ -43,6 +44,12 @@ export interface NodeProps<T, P> {
   ref?: React.Ref<T>
   key?: React.Key
   onUpdate?: (self: T) => void
+  /**
+   * Carries runtime state over when the instance is reconstructed because its args changed, for instance
+   * under Fast Refresh. `true` preserves transforms, `userData` and shader uniforms, or pass the fields to keep.
+   * Props take precedence, and classes with a `preserveState(previous)` method preserve state unless this is false
+   */
+  preserve?: boolean | string[]
 }
 
 export type ExtendedColors<T> = { [K in keyof T]: T[K] extends THREE.Color | undefined ? Color : T[K] }
@@ -59,8 +66,18 @@ export type Object3DNode<T, P> = Overwrite<
     quaternion?: Quaternion
     layers?: Layers
     dispose?: (() => void) | null
+    /** Makes the object focusable, a non-negative value adds it to the tab order */
+    tabIndex?: number
+    /**
+     * Whether the object receives pointer events or lets the pointer through to objects behind it. "children" only
+     * lets it through the object itself. Descendants inherit it unless they set their own. Default: "auto"
+     */
+    pointerEvents?: 'auto' | 'none' | 'children'
+    /** Role of the object's element in the accessibility mirror */
+    role?: AriaRole
   }
 > &
+  AriaAttributes &
   EventHandlers
 
 export type BufferGeometryNode<T extends THREE.BufferGeometry, P> = Node<T, P>
@@ -6,6 +6,7 @@ import { useContextBridge, FiberProvider } from 'its-fine'
 import { isRef, SetBlock, Block, ErrorBoundary, useMutableCallback, useIsomorphicLayoutEffect } from '../core/utils'
 import { ReconcilerRoot, extend, createRoot, unmountComponentAtNode, RenderProps } from '../core'
 import { createPointerEvents } from './events'
+import { Accessibility } from './accessibility'
 import { DomEvent } from '../core/events'
 
 export interface CanvasProps
@@ -23,6 +24,8 @@ export interface CanvasProps
   eventSource?: HTMLElement | React.MutableRefObject<HTMLElement>
   /** The event prefix that is cast into canvas pointer x/y events, default: "offset" */
   eventPrefix?: 'offset' | 'client' | 'page' | 'layer' | 'screen'
+  /** Mirrors interactive objects as hidden DOM elements for screen readers, default: false */
+  accessibility?: boolean
 }
 
 export interface Props extends CanvasProps {}
@@ -37,18 +40,27 @@ const CanvasImpl = /*#__PURE__*/ React.forwardRef<HTMLCanvasElement, Props>(func
     events = createPointerEvents,
     eventSource,
     eventPrefix,
+    accessibility,
     shadows,
     linear,
     flat,
     legacy,
     orthographic,
     frameloop,
+    frameSource,
+    frameBudget,
+    disposeBudget,
+    timeScale,
+    paused,
+    profile,
     dpr,
     performance,
     raycaster,
+    raycastLayers,
     camera,
     scene,
     onPointerMissed,
+    onDisposed,
     onCreated,
     ...props
   },
@@ -90,14 +102,22 @@ const CanvasImpl = /*#__PURE__*/ React.forwardRef<HTMLCanvasElement, Props>(func
         legacy,
         orthographic,
         frameloop,
+        frameSource,
+        frameBudget,
+        disposeBudget,
+        timeScale,
+        paused,
+        profile,
         dpr,
         performance,
         raycaster,
+        raycastLayers,
         camera,
         scene,
         size: containerRect,
         // Pass mutable reference to onPointerMissed so it's free to update
         onPointerMissed: (...args) => handlePointerMissed.current?.(...args),
+        onDisposed,
         onCreated: (state) => {
           // Connect to event source
           state.events.connect?.(
@@ -122,6 +142,7 @@ const CanvasImpl = /*#__PURE__*/ React.forwardRef<HTMLCanvasElement, Props>(func
         <Bridge>
           <ErrorBoundary set={setError}>
             <React.Suspense fallback={<Block set={setBlock} />}>{children}</React.Suspense>
+            {accessibility && <Accessibility target={divRef} />}
           </ErrorBoundary>
         </Bridge>,
       )
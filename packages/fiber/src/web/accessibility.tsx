@@ -0,0 +1,189 @@
+import * as THREE from 'three'
+import * as React from 'react'
+import { useFrame, useStore } from '../core/hooks'
+import { changeFocus, createEvents } from '../core/events'
+import { getRootState } from '../core/utils'
+import type { Instance } from '../core/renderer'
+
+// Mirrored elements are invisible and let the pointer through, but stay in the accessibility tree
+const LAYER_STYLE = 'position:absolute;top:0;left:0;width:100%;height:100%;overflow:hidden;pointer-events:none'
+const ELEMENT_STYLE = 'position:absolute;margin:0;padding:0;opacity:0;pointer-events:none'
+
+const _box = new THREE.Box3()
+const _corner = new THREE.Vector3()
+const _center = new THREE.Vector3()
+
+function isVisible(object: THREE.Object3D | null) {
+  while (object) {
+    if (!object.visible) return false
+    object = object.parent
+  }
+  return true
+}
+
+/** Only objects that can be activated, focused or described are mirrored, hover-only objects stay out of the tab order */
+function isAccessible(object: THREE.Object3D) {
+  const { memoizedProps, handlers } = (object as unknown as Instance).__r3f
+  if (handlers.onClick || memoizedProps.role != null || memoizedProps.tabIndex != null) return true
+  for (const key in memoizedProps) if (key.startsWith('aria-') && memoizedProps[key] != null) return true
+  return false
+}
+
+/** Mirrors the role and aria-* props of an object, an object with onClick is a button by default */
+function updateAttributes(element: HTMLElement, object: THREE.Object3D) {
+  const { memoizedProps, handlers } = (object as unknown as Instance).__r3f
+  const attributes: Record<string, string> = {}
+  const role = memoizedProps.role ?? (handlers.onClick ? 'button' : undefined)
+  if (role) attributes.role = role
+  if (object.name) attributes['aria-label'] = object.name
+  for (const key in memoizedProps) {
+    if (key.startsWith('aria-') && memoizedProps[key] != null) attributes[key] = String(memoizedProps[key])
+  }
+
+  for (const { name } of Array.from(element.attributes)) {
+    if ((name === 'role' || name.startsWith('aria-')) && !(name in attributes)) element.removeAttribute(name)
+  }
+  for (const name in attributes) {
+    if (element.getAttribute(name) !== attributes[name]) element.setAttribute(name, attributes[name])
+  }
+  element.tabIndex = memoizedProps.tabIndex ?? 0
+}
+
+/** Places an element over the screen bounds of an object */
+function updateBounds(element: HTMLElement, object: THREE.Object3D) {
+  const state = getRootState(object)
+  _box.setFromObject(object)
+  element.hidden = !state || !isVisible(object) || _box.isEmpty()
+  if (element.hidden) return
+
+  const { camera, size } = state!
+  // The camera might not have been rendered yet, or since it moved
+  camera.updateMatrixWorld()
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (let i = 0; i < 8; i++) {
+    _corner.set(i & 1 ? _box.max.x : _box.min.x, i & 2 ? _box.max.y : _box.min.y, i & 4 ? _box.max.z : _box.min.z)
+    _corner.project(camera)
+    const x = ((_corner.x + 1) / 2) * size.width
+    const y = ((1 - _corner.y) / 2) * size.height
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+  }
+
+  // Clamp to the canvas, objects that are partly behind the camera would otherwise span the screen
+  minX = THREE.MathUtils.clamp(minX, 0, size.width)
+  maxX = THREE.MathUtils.clamp(maxX, 0, size.width)
+  minY = THREE.MathUtils.clamp(minY, 0, size.height)
+  maxY = THREE.MathUtils.clamp(maxY, 0, size.height)
+  element.style.left = `${minX}px`
+  element.style.top = `${minY}px`
+  element.style.width = `${maxX - minX}px`
+  element.style.height = `${maxY - minY}px`
+}
+
+/**
+ * Mirrors interactive objects as hidden DOM elements for assistive technologies. Elements are positioned over the
+ * projected bounds of their object, focusing them focuses the object and activating them fires its onClick.
+ */
+export function Accessibility({ target }: { target: React.MutableRefObject<HTMLElement> }) {
+  const store = useStore()
+  const [{ layer, elements, dispatchHit }] = React.useState(() => ({
+    layer: document.createElement('div'),
+    elements: new Map<THREE.Object3D, HTMLElement>(),
+    dispatchHit: createEvents(store).dispatchHit,
+  }))
+
+  React.useEffect(() => {
+    layer.style.cssText = LAYER_STYLE
+    target.current.appendChild(layer)
+    return () => {
+      layer.remove()
+      layer.innerHTML = ''
+      elements.clear()
+    }
+  }, [layer, elements, target])
+
+  const activate = React.useCallback(
+    (object: THREE.Object3D, event: MouseEvent) => {
+      const state = getRootState(object)
+      if (!state) return
+      // Cast a ray through the center of the object so the event carries a regular intersection, the pointer
+      // and raycaster of the root are left alone as they belong to the actual pointer
+      _box.setFromObject(object).getCenter(_center)
+      const ndc = _center.clone().project(state.camera)
+      const pointer = new THREE.Vector2(ndc.x, ndc.y)
+      const raycaster = new THREE.Raycaster()
+      raycaster.layers.mask = state.raycaster.layers.mask
+      raycaster.params = state.raycaster.params
+      raycaster.setFromCamera(pointer, state.camera)
+      const hit = raycaster.intersectObject(object, true)[0] ?? {
+        object,
+        distance: raycaster.ray.origin.distanceTo(_center),
+        point: _center.clone(),
+      }
+      dispatchHit('onClick', hit, event, { raycaster, pointer })
+    },
+    [dispatchHit],
+  )
+
+  const createElement = React.useCallback(
+    (object: THREE.Object3D) => {
+      const element = document.createElement('div')
+      element.style.cssText = ELEMENT_STYLE
+      element.addEventListener('click', (event) => {
+        // The event source must not raycast this click
+        event.stopPropagation()
+        activate(object, event)
+      })
+      element.addEventListener('keydown', (event) => {
+        const { handlers } = (object as unknown as Instance).__r3f
+        if (handlers.onClick && (event.key === 'Enter' || event.key === ' ')) {
+          event.preventDefault()
+          element.click()
+        }
+      })
+      element.addEventListener('focus', (event) => changeFocus(store.getState().internal, object, event))
+      element.addEventListener('blur', (event) => {
+        const { internal } = store.getState()
+        if (internal.focused === object) changeFocus(internal, null, event)
+      })
+      return element
+    },
+    [activate, store],
+  )
+
+  const sync = React.useCallback(() => {
+    const accessible = new Set(store.getState().internal.interaction.filter(isAccessible))
+    // Drop elements of objects that left the scene or lost their handlers
+    elements.forEach((element, object) => {
+      if (!accessible.has(object)) {
+        element.remove()
+        elements.delete(object)
+      }
+    })
+
+    for (const object of accessible) {
+      let element = elements.get(object)
+      if (!element) {
+        elements.set(object, (element = createElement(object)))
+        layer.appendChild(element)
+      }
+      updateAttributes(element, object)
+      updateBounds(element, object)
+    }
+  }, [createElement, elements, layer, store])
+
+  // Objects move with rendered frames, and mounting or changing them invalidates a frame. Changes to the root, like
+  // its size or camera, and objects that are mounted while the frameloop is "never" are picked up from the store
+  useFrame(sync, { phase: 'postRender' })
+  React.useEffect(() => {
+    sync()
+    return store.subscribe(sync)
+  }, [store, sync])
+
+  return null
+}
@@ -1,3 +1,4 @@
+import * as THREE from 'three'
 import { UseBoundStore } from 'zustand'
 import { RootState } from '../core/store'
 import { EventManager, Events, createEvents, DomEvent } from '../core/events'
@@ -13,25 +14,116 @@ const DOM_EVENTS = {
   onPointerMove: ['pointermove', true],
   onPointerCancel: ['pointercancel', true],
   onLostPointerCapture: ['lostpointercapture', true],
+  onKeyDown: ['keydown', false],
+  onKeyUp: ['keyup', false],
 } as const
 
+const _movement = new THREE.Vector2()
+
 /** Default R3F event manager for web */
 export function createPointerEvents(store: UseBoundStore<RootState>): EventManager<HTMLElement> {
-  const { handlePointer } = createEvents(store)
+  const { handlePointer, handleKey } = createEvents(store)
+
+  // The latest pointermove, it waits for the next frame while moves are coalesced
+  let pendingMove: PointerEvent | null = null
+  let frame: number | undefined = undefined
+
+  // Locked movement is collected for one frame, and starts over once the frame has been rendered
+  const resetMovement = { current: () => void store.getState().events.movement?.set(0, 0) }
+  let unsubscribeMovement: (() => void) | undefined = undefined
+
+  const handlePointerMove = handlePointer('onPointerMove')
+  function flushPointerMove() {
+    if (frame !== undefined) cancelAnimationFrame(frame)
+    frame = undefined
+    const event = pendingMove
+    pendingMove = null
+    if (event) handlePointerMove(event)
+  }
+
+  function handlePointerLockChange() {
+    const { set, events } = store.getState()
+    const locked = !!events.connected && document.pointerLockElement === events.connected
+    if (locked !== events.locked) set((state) => ({ events: { ...state.events, locked } }))
+    // Nothing has to be tracked until the pointer is locked again
+    if (!locked) {
+      events.movement?.set(0, 0)
+      untrack()
+    }
+  }
+
+  // Lock state and movement are only tracked once the pointer is being locked
+  function track() {
+    if (unsubscribeMovement || typeof document === 'undefined') return
+    document.addEventListener('pointerlockchange', handlePointerLockChange)
+    unsubscribeMovement = store
+      .getState()
+      .internal.subscribe(resetMovement, 0, store, { name: 'PointerLock', phase: 'postRender' })
+  }
+
+  function untrack() {
+    unsubscribeMovement?.()
+    unsubscribeMovement = undefined
+    if (typeof document !== 'undefined') document.removeEventListener('pointerlockchange', handlePointerLockChange)
+  }
+
+  function createHandler(name: string) {
+    // Key events are forwarded to the focused object, they aren't raycast
+    if (name === 'onKeyDown' || name === 'onKeyUp') return handleKey(name)
+    if (name === 'onPointerMove') {
+      return (event: PointerEvent) => {
+        const { events, invalidate } = store.getState()
+        if (events.locked) {
+          events.movement?.add(_movement.set(event.movementX, event.movementY))
+          invalidate()
+        }
+        if (!events.coalesce) return handlePointerMove(event)
+        // Raycast once per frame, with the most recent of the moves the browser merged into this event
+        const coalesced = event.getCoalescedEvents?.()
+        pendingMove = coalesced?.length ? coalesced[coalesced.length - 1] : event
+        if (frame === undefined) frame = requestAnimationFrame(flushPointerMove)
+      }
+    }
+    const handler = handlePointer(name)
+    return (event: DomEvent) => {
+      // The click that locks the pointer only enters first-person mode
+      const { events } = store.getState()
+      if (name === 'onClick' && events.pointerLock && !events.locked) return events.lock?.()
+      // A pending move has to be handled first so hover-state is up to date for downs, ups and clicks
+      flushPointerMove()
+      handler(event)
+    }
+  }
 
   return {
     priority: 1,
     enabled: true,
     compute(event: DomEvent, state: RootState, previous?: RootState) {
+      // The cursor is frozen while the pointer is locked, raycast from the center instead
+      if (state.events.locked) state.pointer.set(0, 0)
       // https://github.com/pmndrs/react-three-fiber/pull/782
       // Events trigger outside of canvas when moved, use offsetX/Y by default and allow overrides
-      state.pointer.set((event.offsetX / state.size.width) * 2 - 1, -(event.offsetY / state.size.height) * 2 + 1)
+      else state.pointer.set((event.offsetX / state.size.width) * 2 - 1, -(event.offsetY / state.size.height) * 2 + 1)
       state.raycaster.setFromCamera(state.pointer, state.camera)
     },
 
+    locked: false,
+    movement: new THREE.Vector2(),
+    lock: () => {
+      const { connected } = store.getState().events
+      if (!connected?.requestPointerLock) return
+      track()
+      connected.requestPointerLock()
+    },
+    unlock: () => {
+      const { events } = store.getState()
+      if (typeof document === 'undefined' || !events.connected) return
+      if (document.pointerLockElement === events.connected) document.exitPointerLock()
+    },
+
     connected: undefined,
     handlers: Object.keys(DOM_EVENTS).reduce(
-      (acc, key) => ({ ...acc, [key]: handlePointer(key) }),
+      (acc, key) => ({ ...acc, [key]: createHandler(key) }),
       {},
     ) as unknown as Events,
     update: () => {
@@ -49,6 +141,10 @@ export function createPointerEvents(store: UseBoundStore<RootState>): EventManag
     },
     disconnect: () => {
       const { set, events } = store.getState()
+      if (frame !== undefined) cancelAnimationFrame(frame)
+      frame = undefined
+      pendingMove = null
+      untrack()
       if (events.connected) {
         Object.entries(events.handlers ?? []).forEach(([name, event]) => {
           if (events && events.connected instanceof HTMLElement) {
@@ -56,7 +152,7 @@ export function createPointerEvents(store: UseBoundStore<RootState>): EventManag
             events.connected.removeEventListener(eventName, event)
           }
         })
-        set((state) => ({ events: { ...state.events, connected: undefined } }))
+        set((state) => ({ events: { ...state.events, connected: undefined, locked: false } }))
       }
     },
   }
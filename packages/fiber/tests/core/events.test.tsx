@@ -1,11 +1,40 @@
 import * as React from 'react'
+import * as THREE from 'three'
 import { render, fireEvent, RenderResult } from '@testing-library/react'
 
-import { Canvas, act } from '../../src'
+import {
+  Canvas,
+  act,
+  useHoveredInstances,
+  useHoverDwell,
+  useEventTraces,
+  useStore,
+  events,
+  ThreeEvent,
+  createPicking,
+  recordEvents,
+  replayEvents,
+  RootState,
+  EventLog,
+  EventTrace,
+} from '../../src'
+import type { UseBoundStore } from 'zustand'
 
 const getContainer = () => document.querySelector('canvas')?.parentNode?.parentNode as HTMLDivElement
 
 describe('events', () => {
+  // Fires an event at canvas coordinates, clicks are mouse events and everything else pointer events. Offsets and
+  // extra props are enumerable like the native getters, so that they can be recorded
+  const fire = (type: string, x: number, y: number, props: Record<string, number> = {}) => {
+    const evt = type === 'click' ? new MouseEvent(type) : new PointerEvent(type)
+    for (const [key, value] of Object.entries({ offsetX: x, offsetY: y, ...props })) {
+      Object.defineProperty(evt, key, { get: () => value, enumerable: true })
+    }
+    fireEvent(getContainer(), evt)
+    return evt
+  }
+  const move = (x: number, y: number) => act(async () => void fire('pointermove', x, y))
+
   it('can handle onPointerDown', async () => {
     const handlePointerDown = jest.fn()
 
@@ -188,6 +217,671 @@ describe('events', () => {
     expect(handlePointerOut).toHaveBeenCalled()
   })
 
+  it('can handle hover state per instance', async () => {
+    const handlePointerOver = jest.fn()
+    const handlePointerOut = jest.fn()
+    let hovered: Set<number> = null!
+
+    const Instances = () => {
+      const ref = React.useRef<THREE.InstancedMesh>(null!)
+      const [hoveredInstances, handlers] = useHoveredInstances()
+      hovered = hoveredInstances
+
+      React.useLayoutEffect(() => {
+        ref.current.setMatrixAt(0, new THREE.Matrix4())
+        ref.current.setMatrixAt(1, new THREE.Matrix4().makeTranslation(3, 0, 0))
+      }, [])
+
+      return (
+        <instancedMesh
+          ref={ref}
+          args={[undefined, undefined, 2]}
+          onPointerOver={(e) => {
+            handlePointerOver(e.instanceId)
+            handlers.onPointerOver(e)
+          }}
+          onPointerOut={(e) => {
+            handlePointerOut(e.instanceId)
+            handlers.onPointerOut(e)
+          }}>
+          <boxGeometry args={[2, 2]} />
+          <meshBasicMaterial />
+        </instancedMesh>
+      )
+    }
+
+    await act(async () => {
+      render(
+        <Canvas>
+          <Instances />
+        </Canvas>,
+      )
+    })
+
+    await move(577, 480)
+    expect(handlePointerOver.mock.calls).toEqual([[0]])
+    expect([...hovered]).toStrictEqual([0])
+
+    // Moving onto another instance of the same mesh pairs out and over events
+    await move(953, 480)
+    expect(handlePointerOut.mock.calls).toEqual([[0]])
+    expect(handlePointerOver.mock.calls).toEqual([[0], [1]])
+    expect([...hovered]).toStrictEqual([1])
+
+    await move(0, 0)
+    expect(handlePointerOut.mock.calls).toEqual([[0], [1]])
+    expect([...hovered]).toStrictEqual([])
+  })
+
+  it('can raycast against a bvh', async () => {
+    const geometry = new THREE.SphereGeometry(1, 64, 64)
+    const hits: THREE.Intersection[] = []
+    const expected: THREE.Intersection[] = []
+
+    await act(async () => {
+      render(
+        <Canvas events={(store) => ({ ...events(store), bvh: true })}>
+          <mesh
+            geometry={geometry}
+            onPointerMove={(e) => {
+              hits.push(e)
+              expected.push(new THREE.Raycaster(e.ray.origin, e.ray.direction).intersectObject(e.object)[0])
+            }}>
+            <meshBasicMaterial />
+          </mesh>
+        </Canvas>,
+      )
+    })
+
+    await move(577, 480)
+    // The hierarchy is rebuilt once attributes change
+    geometry.translate(-0.2, -0.2, 0)
+    await move(577, 480)
+
+    expect(hits).toHaveLength(2)
+    for (let i = 0; i < hits.length; i++) {
+      expect(hits[i].faceIndex).toBe(expected[i].faceIndex)
+      expect(hits[i].distance).toBeCloseTo(expected[i].distance)
+      expect(hits[i].point.distanceTo(expected[i].point)).toBeCloseTo(0)
+      expect(hits[i].uv!.distanceTo(expected[i].uv!)).toBeCloseTo(0)
+    }
+    expect(hits[0].faceIndex).not.toBe(hits[1].faceIndex)
+  })
+
+  it('can coalesce pointer moves into one raycast per frame', async () => {
+    const calls: string[] = []
+
+    await act(async () => {
+      render(
+        <Canvas events={(store) => ({ ...events(store), coalesce: true })}>
+          <mesh
+            onPointerMove={(e) => calls.push(`move ${e.nativeEvent.offsetX}`)}
+            onPointerDown={() => calls.push('down')}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+        </Canvas>,
+      )
+    })
+
+    fire('pointermove', 570, 480)
+    fire('pointermove', 575, 480)
+    fire('pointermove', 577, 480)
+    expect(calls).toStrictEqual([])
+
+    await act(async () => void (await new Promise((resolve) => requestAnimationFrame(resolve))))
+    expect(calls).toStrictEqual(['move 577'])
+
+    // Pending moves are handled before other events
+    fire('pointermove', 580, 480)
+    fire('pointerdown', 580, 480)
+    expect(calls).toStrictEqual(['move 577', 'move 580', 'down'])
+
+    await act(async () => void (await new Promise((resolve) => requestAnimationFrame(resolve))))
+    expect(calls).toStrictEqual(['move 577', 'move 580', 'down'])
+  })
+
+  it('can raycast from the center while the pointer is locked', async () => {
+    const calls: string[] = []
+    let state: RootState = null!
+
+    await act(async () => {
+      render(
+        <Canvas
+          events={(store) => ({ ...events(store), pointerLock: true })}
+          onCreated={(created) => void (state = created)}>
+          <mesh
+            onPointerOver={() => calls.push('over')}
+            onPointerOut={() => calls.push('out')}
+            onClick={() => calls.push('click')}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+        </Canvas>,
+      )
+    })
+
+    let pointerLockElement: Element | null = null
+    Object.defineProperty(document, 'pointerLockElement', { configurable: true, get: () => pointerLockElement })
+    const requestPointerLock = jest.fn(() => {
+      pointerLockElement = getContainer()
+      document.dispatchEvent(new Event('pointerlockchange'))
+    })
+    getContainer().requestPointerLock = requestPointerLock
+
+    // The cursor stays in the corner, away from the mesh
+    const lockedFire = (type: string, movementX = 0, movementY = 0) => fire(type, 0, 0, { movementX, movementY })
+
+    // Nothing is tracked before the pointer is locked
+    const tracked = () => state.get().internal.subscribers.some(({ name }) => name === 'PointerLock')
+    expect(tracked()).toBe(false)
+
+    // The first click only locks the pointer
+    lockedFire('pointerdown')
+    lockedFire('pointerup')
+    lockedFire('click')
+    expect(requestPointerLock).toHaveBeenCalledTimes(1)
+    expect(state.get().events.locked).toBe(true)
+    expect(tracked()).toBe(true)
+    expect(calls).toEqual([])
+
+    lockedFire('pointermove', 3, -2)
+    lockedFire('pointermove', 4, 1)
+    expect(state.get().events.movement).toEqual(new THREE.Vector2(7, -1))
+    // Movement starts over every frame
+    await act(async () => state.advance(0))
+    expect(state.get().events.movement).toEqual(new THREE.Vector2(0, 0))
+    lockedFire('pointermove', 3, -2)
+    lockedFire('pointermove', 4, 1)
+    lockedFire('pointerdown')
+    lockedFire('pointerup')
+    lockedFire('click')
+    expect(calls).toEqual(['over', 'click'])
+
+    // Unlocking returns to the cursor
+    pointerLockElement = null
+    await act(async () => void document.dispatchEvent(new Event('pointerlockchange')))
+    expect(state.get().events.locked).toBe(false)
+    expect(tracked()).toBe(false)
+    const movement = state.get().events.movement!.clone()
+    lockedFire('pointermove', 5, 5)
+    expect(calls).toEqual(['over', 'click', 'out'])
+    expect(state.get().events.movement).toEqual(movement)
+    delete (document as any).pointerLockElement
+  })
+
+  it('can let the pointer through with pointerEvents and raycastLayers', async () => {
+    const calls: string[] = []
+    const Box = ({ name, ...props }: { name: string } & Omit<JSX.IntrinsicElements['mesh'], 'name'>) => (
+      <mesh {...props} onClick={() => calls.push(name)}>
+        <boxGeometry args={[2, 2]} />
+        <meshBasicMaterial />
+      </mesh>
+    )
+
+    await act(async () => {
+      render(
+        <Canvas raycastLayers={[0, 1]}>
+          <group pointerEvents="none" onClick={() => calls.push('group')}>
+            <Box name="inherited" position-z={2} />
+            <Box name="auto" position-z={1} pointerEvents="auto" />
+          </group>
+          <Box name="other layer" position-z={0} layers={2} />
+          <Box name="raycast layer" position-z={-1} layers={1} />
+        </Canvas>,
+      )
+    })
+
+    for (const type of ['pointerdown', 'pointerup', 'click']) fire(type, 577, 480)
+
+    expect(calls).toEqual(['auto', 'group', 'raycast layer'])
+  })
+
+  it('can trace events for debugging', async () => {
+    let traces: EventTrace[] = []
+    let scene: THREE.Scene = null!
+    const missed = React.createRef<THREE.Mesh>()
+    const front = React.createRef<THREE.Mesh>()
+    const rear = React.createRef<THREE.Mesh>()
+
+    const Traces = () => {
+      traces = useEventTraces({ rays: true })
+      return null
+    }
+
+    await act(async () => {
+      render(
+        <Canvas
+          events={(store) => ({ ...events(store), debug: { size: 2 } })}
+          onCreated={(state) => void (scene = state.scene)}>
+          <mesh ref={missed} position-z={2} pointerEvents="none" onClick={() => {}} onPointerMissed={() => {}}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+          <mesh ref={front} position-z={1} onClick={(e) => e.stopPropagation()}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+          <mesh ref={rear} onClick={() => {}} onPointerOut={() => {}}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+          <Traces />
+        </Canvas>,
+      )
+    })
+
+    await act(async () => {
+      for (const type of ['pointerdown', 'pointerup', 'click']) fire(type, 577, 480)
+    })
+    // Traces are added once per frame
+    await act(() => new Promise((resolve) => requestAnimationFrame(resolve)))
+
+    expect(traces.map((trace) => trace.name)).toEqual(['onPointerUp', 'onClick'])
+    const trace = traces[1]
+    expect(trace.candidates.length).toBe(3)
+    // Every box was hit, the first one let the pointer through
+    expect(trace.intersections.length).toBe(3)
+    expect(trace.filtered.length).toBe(1)
+    expect(trace.handlers).toEqual([
+      { eventObject: missed.current, name: 'onPointerMissed' },
+      { eventObject: front.current, name: 'onClick' },
+    ])
+    expect(trace.stoppedAt).toBe(front.current)
+    expect(trace.rays.length).toBe(1)
+    expect(scene.children.filter((child) => child instanceof THREE.ArrowHelper).length).toBe(1)
+
+    // Events that aren't raycast are traced as well
+    await act(async () => {
+      fire('pointermove', 577, 480)
+      fireEvent(getContainer(), new PointerEvent('pointerleave'))
+      await new Promise((resolve) => requestAnimationFrame(resolve))
+    })
+    expect(traces.map((trace) => trace.name)).toEqual(['onPointerMove', 'onPointerLeave'])
+    expect(traces[1].handlers).toEqual([{ eventObject: rear.current, name: 'onPointerOut' }])
+  })
+
+  it('can handle hover dwell', async () => {
+    const handleDwell = jest.fn()
+    let dwelling = false
+
+    function Dwell() {
+      const [state, handlers] = useHoverDwell()
+      dwelling = state
+      return (
+        <mesh {...handlers} onPointerEnterDelayed={(e) => (handleDwell(e), handlers.onPointerEnterDelayed(e))}>
+          <boxGeometry args={[2, 2]} />
+          <meshBasicMaterial />
+        </mesh>
+      )
+    }
+
+    await act(async () => {
+      render(
+        <Canvas events={(store) => ({ ...events(store), hoverDelay: 20 })}>
+          <Dwell />
+        </Canvas>,
+      )
+    })
+
+    const wait = () => act(async () => void (await new Promise((resolve) => setTimeout(resolve, 50))))
+
+    // Leaving before the delay cancels
+    fire('pointermove', 577, 480)
+    fire('pointermove', 0, 480)
+    await wait()
+    expect(handleDwell).not.toHaveBeenCalled()
+
+    // Resting on the object fires once
+    fire('pointermove', 577, 480)
+    fire('pointermove', 578, 480)
+    await wait()
+    expect(handleDwell).toHaveBeenCalledTimes(1)
+    expect(dwelling).toBe(true)
+
+    await move(0, 480)
+    expect(dwelling).toBe(false)
+  })
+
+  it('can record and replay events', async () => {
+    const calls: string[] = []
+    let store: UseBoundStore<RootState> = null!
+
+    const Scene = () => {
+      store = useStore()
+      return (
+        <mesh
+          onPointerOver={() => calls.push('over')}
+          onPointerOut={() => calls.push('out')}
+          onClick={(e) => calls.push(`click ${e.offsetX}`)}>
+          <boxGeometry args={[2, 2]} />
+          <meshBasicMaterial />
+        </mesh>
+      )
+    }
+
+    let renderResult: RenderResult = null!
+    await act(async () => {
+      renderResult = render(
+        <Canvas>
+          <Scene />
+        </Canvas>,
+      )
+    })
+
+    const recorder = recordEvents(store)
+    fire('pointermove', 577, 480)
+    fire('pointerdown', 577, 480)
+    fire('pointerup', 577, 480)
+    fire('click', 577, 480)
+    fire('pointermove', 0, 0)
+    const log: EventLog = JSON.parse(JSON.stringify(recorder.stop()))
+    expect(log.events.map((event) => event.name)).toEqual([
+      'onPointerMove',
+      'onPointerDown',
+      'onPointerUp',
+      'onClick',
+      'onPointerMove',
+    ])
+    expect(calls).toEqual(['over', 'click 577', 'out'])
+
+    // The original handlers are back once the recording stopped
+    fire('pointermove', 577, 480)
+    expect(log.events.length).toBe(5)
+    renderResult.unmount()
+
+    // Replaying against a fresh root, which moved its camera in the meantime
+    calls.length = 0
+    await act(async () => {
+      render(
+        <Canvas camera={{ position: [10, 0, 5] }}>
+          <Scene />
+        </Canvas>,
+      )
+    })
+    await act(async () => replayEvents(store, log))
+    expect(calls).toEqual(['over', 'click 577', 'out'])
+  })
+
+  it('can handle drag events', async () => {
+    const calls: string[] = []
+    const offsets: THREE.Vector3[] = []
+
+    await act(async () => {
+      render(
+        <Canvas>
+          <group onDragEnd={(e) => calls.push(`group end ${e.canceled}`)}>
+            <mesh
+              onClick={() => calls.push('click')}
+              onDragStart={() => calls.push('start')}
+              onDrag={(e) => offsets.push(e.offset.clone())}
+              onDragEnd={(e) => calls.push(`end ${e.canceled}`)}>
+              <boxGeometry args={[2, 2]} />
+              <meshBasicMaterial />
+            </mesh>
+          </group>
+        </Canvas>,
+      )
+    })
+
+    const canvas = getContainer()
+    canvas.setPointerCapture = jest.fn()
+    canvas.releasePointerCapture = jest.fn()
+
+    const drag = (type: string, x: number, y: number) => fire(type, x, y, { pointerId: 1 })
+
+    // Drags start once the pointer moved past the threshold
+    drag('pointerdown', 577, 480)
+    drag('pointermove', 579, 480)
+    expect(calls).toStrictEqual([])
+    drag('pointermove', 600, 480)
+    expect(calls).toStrictEqual(['start'])
+    expect(canvas.setPointerCapture).toHaveBeenCalledWith(1)
+
+    // Offsets are measured along a plane facing the camera
+    drag('pointermove', 800, 480)
+    expect(offsets.length).toBe(2)
+    expect(offsets[1].x).toBeGreaterThan(offsets[0].x)
+    expect(offsets[1].y).toBeCloseTo(0)
+    expect(offsets[1].z).toBeCloseTo(0)
+
+    // Drags end with the pointer, and bubble
+    drag('pointerup', 800, 480)
+    expect(calls).toStrictEqual(['start', 'end false', 'group end false'])
+    expect(canvas.releasePointerCapture).toHaveBeenCalledWith(1)
+
+    // Or are canceled
+    drag('pointerdown', 577, 480)
+    drag('pointermove', 700, 480)
+    drag('pointercancel', 700, 480)
+    expect(calls.slice(3)).toStrictEqual(['start', 'end true', 'group end true'])
+
+    // Releasing a drag over the pressed object doesn't click it
+    drag('pointerdown', 577, 480)
+    drag('pointermove', 700, 480)
+    drag('pointermove', 577, 480)
+    drag('pointerup', 577, 480)
+    drag('click', 577, 480)
+    expect(calls.slice(6)).toStrictEqual(['start', 'end false', 'group end false'])
+
+    // Clicks without a drag still go through
+    drag('pointerdown', 577, 480)
+    drag('pointerup', 577, 480)
+    drag('click', 577, 480)
+    expect(calls.slice(9)).toStrictEqual(['click'])
+  })
+
+  it('can handle multi-touch gestures', async () => {
+    const handlePinch = jest.fn()
+    const handleRotate = jest.fn()
+    const handleDragEnd = jest.fn()
+
+    await act(async () => {
+      render(
+        <Canvas>
+          <mesh onPinch={handlePinch} onRotateGesture={handleRotate} onDragEnd={handleDragEnd}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+        </Canvas>,
+      )
+    })
+
+    const canvas = getContainer()
+    canvas.setPointerCapture = jest.fn()
+    canvas.releasePointerCapture = jest.fn()
+
+    const touch = (type: string, pointerId: number, x: number, y: number) => fire(type, x, y, { pointerId })
+
+    // A single pointer is a drag, the second one turns it into a gesture
+    touch('pointerdown', 1, 567, 480)
+    touch('pointermove', 1, 557, 480)
+    touch('pointerdown', 2, 587, 480)
+    expect(handleDragEnd.mock.calls[0][0].canceled).toBe(true)
+    expect(handlePinch).not.toHaveBeenCalled()
+
+    // Spreading the pointers to twice their distance, only handlers whose value changed are called
+    touch('pointermove', 2, 617, 480)
+    expect(handlePinch).toHaveBeenCalledTimes(1)
+    expect(handleRotate).not.toHaveBeenCalled()
+    const pinch = handlePinch.mock.calls[0][0]
+    expect(pinch.scale).toBeCloseTo(2)
+    expect(pinch.translation.toArray()).toEqual([15, 0])
+    expect(pinch.rotation).toBeCloseTo(0)
+
+    // Moves below the threshold are skipped, but add up
+    touch('pointermove', 2, 617.1, 480)
+    touch('pointermove', 2, 617.2, 480)
+    expect(handlePinch).toHaveBeenCalledTimes(1)
+    touch('pointermove', 2, 618, 480)
+    expect(handlePinch).toHaveBeenCalledTimes(2)
+    expect(handlePinch.mock.calls[1][0].scaleDelta).toBeCloseTo(61 / 60)
+
+    // Turning them a quarter clockwise around their center
+    touch('pointermove', 2, 617, 480)
+    touch('pointermove', 1, 587, 450)
+    touch('pointermove', 2, 587, 510)
+    expect(handleRotate).toHaveBeenCalledTimes(2)
+    const rotate = handleRotate.mock.calls[1][0]
+    expect(rotate.rotation).toBeCloseTo(Math.PI / 2)
+    expect(rotate.scale).toBeCloseTo(2)
+
+    // Lifting a pointer ends the gesture
+    touch('pointerup', 2, 587, 510)
+    touch('pointermove', 1, 600, 450)
+    expect(handleRotate).toHaveBeenCalledTimes(2)
+  })
+
+  it('can handle keyboard and focus events', async () => {
+    const calls: string[] = []
+    const first = React.createRef<THREE.Mesh>()
+    let state: RootState = null!
+
+    await act(async () => {
+      render(
+        <Canvas onCreated={(s) => (state = s)}>
+          <group onKeyDown={(e) => calls.push(`group ${e.key} ${e.object.name}`)}>
+            <mesh
+              ref={first}
+              name="first"
+              tabIndex={0}
+              onFocus={(e) => calls.push(`focus first ${e.relatedObject?.name}`)}
+              onBlur={(e) => calls.push(`blur first ${e.relatedObject?.name}`)}
+              onKeyDown={(e) => e.key === 'Escape' && e.stopPropagation()}>
+              <boxGeometry args={[2, 2]} />
+              <meshBasicMaterial />
+            </mesh>
+            <mesh name="second" position-x={3} tabIndex={0} onFocus={() => calls.push('focus second')}>
+              <boxGeometry args={[2, 2]} />
+              <meshBasicMaterial />
+            </mesh>
+          </group>
+        </Canvas>,
+      )
+    })
+
+    // Keyboard and focus handlers don't make objects raycast targets
+    expect(state.get().internal.interaction).toHaveLength(0)
+
+    const key = (type: string, key: string, shiftKey = false) => {
+      const evt = new KeyboardEvent(type, { key, shiftKey, cancelable: true })
+      fireEvent(getContainer(), evt)
+      return evt
+    }
+
+    // Tab moves focus along the tab order
+    expect(key('keydown', 'Tab').defaultPrevented).toBe(true)
+    expect(key('keydown', 'Tab').defaultPrevented).toBe(true)
+    expect(calls).toStrictEqual(['focus first undefined', 'group Tab first', 'blur first second', 'focus second'])
+    expect(state.get().internal.focused?.name).toBe('second')
+
+    // Past the end focus leaves the canvas
+    calls.length = 0
+    expect(key('keydown', 'Tab').defaultPrevented).toBe(false)
+    expect(state.get().internal.focused).toBe(null)
+    expect(key('keydown', 'Tab', true).defaultPrevented).toBe(true)
+    expect(state.get().internal.focused?.name).toBe('second')
+
+    // Key events bubble up from the focused object until propagation is stopped
+    await act(async () => state.focus(first.current))
+    calls.length = 0
+    key('keydown', 'Enter')
+    key('keydown', 'Escape')
+    expect(calls).toStrictEqual(['group Enter first'])
+
+    // Pressing somewhere else blurs
+    fire('pointerdown', 0, 0)
+    expect(calls).toStrictEqual(['group Enter first', 'blur first undefined'])
+    expect(state.get().internal.focused).toBe(null)
+  })
+
+  it('can intersect with a picking buffer', async () => {
+    const handlePointerMove = jest.fn()
+    const mesh = new THREE.InstancedMesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial(), 10)
+    // Each read-back returns the next pixel, the passes render ids, instance indices and packed depth
+    const pixels: number[][] = []
+
+    await act(async () => {
+      render(
+        <Canvas
+          events={(store) => ({ ...events(store), intersect: createPicking() })}
+          onCreated={({ gl }) => {
+            jest
+              .spyOn(gl, 'readRenderTargetPixels')
+              .mockImplementation((_target, _x, _y, _width, _height, buffer) =>
+                buffer.set(pixels.shift() ?? [0, 0, 0, 0]),
+              )
+          }}>
+          <group onPointerMove={(e) => handlePointerMove({ ...e })}>
+            <primitive object={mesh} />
+          </group>
+        </Canvas>,
+      )
+    })
+
+    // Object 1, instance 260, at half depth
+    pixels.push([0, 0, 1, 255], [0, 1, 4, 255], [0, 0, 0, 128])
+    await move(577, 480)
+
+    expect(handlePointerMove).toHaveBeenCalledTimes(1)
+    const [event] = handlePointerMove.mock.calls[0]
+    expect(event.object).toBe(mesh)
+    expect(event.eventObject).toBe(mesh.parent)
+    expect(event.instanceId).toBe(260)
+    expect(event.distance).toBeGreaterThan(0)
+    expect(event.ray.distanceToPoint(event.point)).toBeCloseTo(0)
+
+    // Nothing underneath the pointer
+    await move(0, 0)
+    expect(handlePointerMove).toHaveBeenCalledTimes(1)
+  })
+
+  it('can pick points beyond 16 bit indices with shader materials', async () => {
+    const handlePointerMove = jest.fn()
+    const material = new THREE.ShaderMaterial({ uniforms: { size: { value: 15 } } })
+    const geometry = new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute(3, 3))
+    const points = new THREE.Points(geometry, material)
+    points.frustumCulled = false
+    const pixels: number[][] = []
+    const pointSizes: number[] = []
+    const materials = new Set<THREE.Material>()
+    const picking = createPicking()
+
+    let result: RenderResult = null!
+    await act(async () => {
+      result = render(
+        <Canvas
+          events={(store) => ({ ...events(store), intersect: picking })}
+          onCreated={({ gl }) => {
+            jest
+              .spyOn(gl, 'readRenderTargetPixels')
+              .mockImplementation((_target, _x, _y, _width, _height, buffer) => {
+                const material = points.material as THREE.ShaderMaterial
+                materials.add(material)
+                pointSizes.push(material.uniforms.pointSize.value)
+                buffer.set(pixels.shift() ?? [0, 0, 0, 0])
+              })
+          }}>
+          <primitive object={points} onPointerMove={(e: ThreeEvent<PointerEvent>) => handlePointerMove(e.index)} />
+        </Canvas>,
+      )
+    })
+
+    // Object 1, point 70000
+    pixels.push([0, 0, 1, 255], [1, 17, 112, 255], [0, 0, 0, 128])
+    await move(577, 480)
+
+    expect(handlePointerMove).toHaveBeenCalledWith(70000)
+    expect(pointSizes).toStrictEqual([15, 15, 15])
+
+    // The picking materials are released along with the root
+    const disposed = jest.fn()
+    materials.forEach((material) => material.addEventListener('dispose', disposed))
+    await act(async () => result.unmount())
+    await act(() => new Promise((resolve) => setTimeout(resolve, 600)))
+    expect(disposed).toHaveBeenCalledTimes(3)
+  })
+
   it('should handle stopPropogation', async () => {
     const handlePointerEnter = jest.fn().mockImplementation((e) => {
       expect(() => e.stopPropagation()).not.toThrow()
@@ -7,6 +7,7 @@ import { waitFor } from '@react-three/test-renderer'
 import {
   createRoot,
   advance,
+  addEffect,
   useLoader,
   act,
   useThree,
@@ -15,6 +16,11 @@ import {
   ObjectMap,
   useInstanceHandle,
   LocalState,
+  Profiler,
+  createManualFrameSource,
+  createXRFrameSource,
+  FrameCallback,
+  usePerformanceMonitor,
 } from '../../src'
 import { Instance } from 'packages/fiber/src/core/renderer'
 
@@ -92,6 +98,334 @@ describe('hooks', () => {
     expect(frameCalls.length).toBeGreaterThan(0)
   })
 
+  it('can order useFrame callbacks by phase', async () => {
+    const calls: string[] = []
+
+    const Component = () => {
+      useFrame(() => calls.push('postRender'), { phase: 'postRender' })
+      useFrame(() => calls.push('animation'))
+      useFrame(() => calls.push('preRender'), { phase: 'preRender' })
+      useFrame(() => calls.push('input'), { phase: 'input', priority: -1 })
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'never' })
+        .render(<Component />),
+    )
+    const render = jest.spyOn(store.getState().gl, 'render').mockImplementation(() => calls.push('render'))
+    advance(1)
+
+    expect(calls).toStrictEqual(['input', 'animation', 'preRender', 'render', 'postRender'])
+    render.mockRestore()
+  })
+
+  it('runs useFrame callbacks that take over rendering after all phases', async () => {
+    const calls: string[] = []
+
+    const Component = () => {
+      useFrame(() => calls.push('postRender'), { phase: 'postRender' })
+      useFrame(() => calls.push('manual render'), 1)
+      useFrame(() => calls.push('preRender'), { phase: 'preRender' })
+      return null
+    }
+
+    await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'never' })
+        .render(<Component />),
+    )
+    advance(1)
+
+    expect(calls).toStrictEqual(['preRender', 'manual render', 'postRender'])
+  })
+
+  it('can defer useFrame callbacks once the frame budget is spent', async () => {
+    let time = 0
+    const now = jest.spyOn(performance, 'now').mockImplementation(() => time)
+    const deltas: number[] = []
+
+    const Component = () => {
+      useFrame(() => void (time += 10), { phase: 'input' })
+      useFrame((_, delta) => deltas.push(delta), { deferrable: true })
+      return null
+    }
+
+    await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'never', frameBudget: 5 })
+        .render(<Component />),
+    )
+
+    // Over budget, deferred
+    advance(1)
+    expect(deltas).toStrictEqual([])
+    // Never deferred twice in a row, receives the accumulated delta
+    advance(2)
+    expect(deltas).toStrictEqual([2])
+
+    now.mockRestore()
+  })
+
+  it('can run useFrame callbacks at a fixed timestep', async () => {
+    const deltas: number[] = []
+    const alphas: number[] = []
+
+    const Component = () => {
+      useFrame((_, delta) => deltas.push(delta), {
+        fixedStep: 0.25,
+        maxSubSteps: 3,
+        interpolate: (_, alpha) => alphas.push(alpha),
+      })
+      return null
+    }
+
+    await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'never' })
+        .render(<Component />),
+    )
+
+    advance(0.1)
+    expect(deltas).toStrictEqual([])
+    expect(alphas[0]).toBeCloseTo(0.4)
+
+    advance(0.6)
+    expect(deltas).toStrictEqual([0.25, 0.25])
+    expect(alphas[1]).toBeCloseTo(0.4)
+
+    // Catch-up is capped
+    advance(10.05)
+    expect(deltas).toStrictEqual([0.25, 0.25, 0.25, 0.25, 0.25])
+    expect(alphas[2]).toBeCloseTo(0.2)
+  })
+
+  it('can scale, pause and step time', async () => {
+    const deltas: number[] = []
+    let time = 0
+
+    const Component = () => {
+      useFrame(({ clock }, delta) => {
+        deltas.push(delta)
+        // Work inside a frame and reading the clock doesn't move scaled or paused time
+        time += 5
+        clock.getElapsedTime()
+      })
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'demand', timeScale: 0.5 })
+        .render(<Component />),
+    )
+    const state = store.getState()
+    const now = jest.spyOn(performance, 'now').mockImplementation(() => time)
+    state.clock.oldTime = time
+    state.clock.elapsedTime = 0
+    // Discard frames that were rendered on mount
+    deltas.length = 0
+
+    time += 1000
+    advance(0, true, state)
+    expect(deltas).toStrictEqual([0.5])
+    expect(state.clock.getElapsedTime()).toBe(0.5)
+
+    state.set({ paused: true })
+    for (let frame = 0; frame < 20; frame++) {
+      time += 1000
+      advance(0, true, store.getState())
+    }
+    expect(deltas.slice(1)).toStrictEqual(Array(20).fill(0))
+    expect(state.clock.getElapsedTime()).toBe(0.5)
+
+    store.getState().step(0.1)
+    advance(0, true, store.getState())
+    expect(deltas[deltas.length - 1]).toBe(0.1)
+    expect(state.clock.getElapsedTime()).toBe(0.6)
+    now.mockRestore()
+  })
+
+  it('can scale and pause time when advancing manually', async () => {
+    const deltas: number[] = []
+
+    const Component = () => {
+      useFrame((_, delta) => deltas.push(delta))
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'never', timeScale: 0.5 })
+        .render(<Component />),
+    )
+
+    advance(1, true, store.getState())
+    advance(2, true, store.getState())
+    expect(deltas).toStrictEqual([0.5, 0.5])
+    expect(store.getState().clock.elapsedTime).toBe(1)
+
+    store.getState().set({ paused: true })
+    advance(3, true, store.getState())
+    expect(deltas).toStrictEqual([0.5, 0.5, 0])
+    expect(store.getState().clock.elapsedTime).toBe(1)
+  })
+
+  it('can profile useFrame subscribers', async () => {
+    function Spinner() {
+      useFrame(() => {})
+      return null
+    }
+
+    function Physics() {
+      useFrame(() => {}, { name: 'World', phase: 'physics' })
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'never', profile: { size: 2 } })
+        .render(
+          <>
+            <Spinner />
+            <Physics />
+          </>,
+        ),
+    )
+
+    advance(1)
+    advance(2)
+    advance(3)
+
+    const { history } = store.getState().profiler as Profiler
+    expect(history.map((frame) => frame.timestamp)).toStrictEqual([2, 3])
+    expect(history[0].subscribers.map(({ name, phase }) => [name, phase])).toStrictEqual([
+      ['World', 'physics'],
+      ['Spinner', 'animation'],
+    ])
+    expect(history[0].render).toBeGreaterThanOrEqual(0)
+    expect(history[0].effects).toStrictEqual({ before: 0, after: 0, tail: 0 })
+  })
+
+  it('can drive useFrame with a custom frame source', async () => {
+    const frameSource = createManualFrameSource()
+    let calls = 0
+
+    const Component = () => {
+      useFrame(() => calls++)
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'demand', frameSource })
+        .render(<Component />),
+    )
+    expect(calls).toBe(0)
+
+    frameSource.tick()
+    expect(calls).toBe(1)
+
+    // Nothing was invalidated
+    frameSource.tick()
+    expect(calls).toBe(1)
+
+    store.getState().invalidate()
+    frameSource.tick()
+    expect(calls).toBe(2)
+  })
+
+  it('keeps rendering with an XR frame source while the session is presenting', async () => {
+    const callbacks: FrameCallback[] = []
+    const frameSource = createXRFrameSource({
+      requestAnimationFrame: (callback) => callbacks.push(callback as FrameCallback),
+      cancelAnimationFrame: () => {},
+    })
+    let calls = 0
+
+    const Component = () => {
+      useFrame(() => calls++)
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameloop: 'demand', frameSource })
+        .render(<Component />),
+    )
+    const { gl } = store.getState()
+    // Capture the session loop the root would install, it runs with the same XR frames
+    const loops: (FrameCallback | null)[] = []
+    jest.spyOn(gl.xr, 'setAnimationLoop').mockImplementation((callback) => void loops.push(callback as FrameCallback))
+    gl.xr.isPresenting = true
+    await act(async () => gl.xr.dispatchEvent({ type: 'sessionstart' }))
+    calls = 0
+
+    // Render once per XR frame
+    store.getState().invalidate()
+    callbacks.splice(0).forEach((callback) => callback(0))
+    loops[loops.length - 1]?.(0)
+    expect(calls).toBe(1)
+
+    gl.xr.isPresenting = false
+    await act(async () => gl.xr.dispatchEvent({ type: 'sessionend' }))
+  })
+
+  it('cancels pending frames of a frame source on unmount', async () => {
+    const frameSource = createManualFrameSource()
+    let effects = 0
+    // Only count the effects of this source's frames, other roots could be running frames as well
+    const remove = addEffect((timestamp) => timestamp === -1 && effects++)
+
+    const root = createRoot(canvas)
+    const store = await act(async () => root.configure({ frameloop: 'demand', frameSource }).render(<group />))
+    frameSource.tick()
+
+    store.getState().invalidate()
+    await act(async () => root.unmount())
+    frameSource.tick(-1)
+    expect(effects).toBe(0)
+    remove()
+  })
+
+  it('can adapt quality and dpr to the measured frame time', async () => {
+    const frameSource = createManualFrameSource()
+    const changes: string[] = []
+
+    const Component = () => {
+      usePerformanceMonitor({
+        onIncline: () => changes.push('incline'),
+        onDecline: () => changes.push('decline'),
+      })
+      return null
+    }
+
+    const store = await act(async () =>
+      createRoot(canvas)
+        .configure({ frameSource, dpr: [0.5, 1], performance: { adaptive: true, samples: 2, target: 20 } })
+        .render(<Component />),
+    )
+    expect(store.getState().viewport.dpr).toBe(1)
+
+    // Frames take 50ms, quality is lowered and the system regresses
+    for (const timestamp of [0, 50, 100]) frameSource.tick(timestamp)
+    expect(changes).toStrictEqual(['decline'])
+    expect(store.getState().performance.quality).toBe(0.75)
+    expect(store.getState().performance.current).toBe(store.getState().performance.min)
+    expect(store.getState().viewport.dpr).toBe(0.875)
+
+    // Within the hysteresis band nothing changes
+    for (const timestamp of [118, 136]) frameSource.tick(timestamp)
+    expect(changes).toStrictEqual(['decline'])
+
+    // Frames take 10ms, quality is raised again
+    for (const timestamp of [146, 156]) frameSource.tick(timestamp)
+    expect(changes).toStrictEqual(['decline', 'incline'])
+    expect(store.getState().performance.quality).toBe(1)
+    expect(store.getState().viewport.dpr).toBe(1)
+  })
+
   it('can handle useLoader hook', async () => {
     let gltf!: Stdlib.GLTF & ObjectMap
 
@@ -11,10 +11,17 @@ import {
   ReactThreeFiber,
   useThree,
   createPortal,
+  CapturedFrame,
+  useResourceStats,
+  getResourceStats,
+  ResourceStats,
+  detectLeaks,
+  flushDisposals,
 } from '../../src/index'
 import { UseBoundStore } from 'zustand'
 import { privateKeys, RootState } from '../../src/core/store'
 import { Instance } from '../../src/core/renderer'
+import { attach, prepare } from '../../src/core/utils'
 
 type ComponentMesh = THREE.Mesh<THREE.BoxBufferGeometry, THREE.MeshBasicMaterial>
 
@@ -47,13 +54,27 @@ class MyColor extends THREE.Color {
   }
 }
 
-extend({ HasObject3dMember, HasObject3dMethods })
+/* This class is used for one of the tests */
+class Counter extends THREE.Object3D {
+  count = 0
+
+  constructor(public step = 1) {
+    super()
+  }
+
+  preserveState(previous: Counter) {
+    this.count = previous.count
+  }
+}
+
+extend({ HasObject3dMember, HasObject3dMethods, Counter })
 
 declare module '@react-three/fiber' {
   interface ThreeElements {
     hasObject3dMember: ReactThreeFiber.Node<HasObject3dMember, typeof HasObject3dMember>
     hasObject3dMethods: ReactThreeFiber.Node<HasObject3dMethods, typeof HasObject3dMethods>
     myColor: ReactThreeFiber.Node<MyColor, typeof MyColor>
+    counter: ReactThreeFiber.Node<Counter, typeof Counter>
   }
 }
 
@@ -361,6 +382,121 @@ describe('renderer', () => {
     })
   })
 
+  describe('attaches into arrays, Maps and Sets', () => {
+    it('appends and inserts into arrays', async () => {
+      const parent = new THREE.Object3D()
+      const first = new THREE.Object3D()
+      const last = new THREE.Object3D()
+      parent.userData.list = [first, last]
+
+      const Test = ({ inserted = true, appended = true }) => (
+        <primitive object={parent}>
+          {inserted && <mesh name="inserted" attach="userData-list[1]" />}
+          {appended && <mesh name="appended" attach="userData-list[]" />}
+        </primitive>
+      )
+
+      await act(async () => root.render(<Test />))
+      const [, inserted, , appended] = parent.userData.list
+      expect(parent.userData.list).toStrictEqual([first, inserted, last, appended])
+      expect(inserted.name).toBe('inserted')
+      expect(appended.name).toBe('appended')
+
+      // Siblings keep their order
+      await act(async () => root.render(<Test inserted={false} />))
+      expect(parent.userData.list).toStrictEqual([first, last, appended])
+
+      await act(async () => root.render(<Test inserted={false} appended={false} />))
+      expect(parent.userData.list).toStrictEqual([first, last])
+    })
+
+    it('sets Map keys and adds to Sets', async () => {
+      const parent = new THREE.Object3D()
+      const previous = new THREE.Texture()
+      parent.userData.textures = new Map([['albedo', previous]])
+      parent.userData.objects = new Set()
+
+      const Test = ({ attached = true }) => (
+        <primitive object={parent}>
+          {attached && (
+            <>
+              <texture name="albedo" attach="userData-textures-albedo" />
+              <texture name="normal" attach="userData-textures-normal" />
+              <mesh attach="userData-objects[]" />
+            </>
+          )}
+        </primitive>
+      )
+
+      await act(async () => root.render(<Test />))
+      expect(parent.userData.textures.get('albedo').name).toBe('albedo')
+      expect(parent.userData.textures.get('normal').name).toBe('normal')
+      expect(parent.userData.objects.size).toBe(1)
+
+      await act(async () => root.render(<Test attached={false} />))
+      expect(parent.userData.textures).toStrictEqual(new Map([['albedo', previous]]))
+      expect(parent.userData.objects.size).toBe(0)
+    })
+
+    it('keeps the order of remounted and reconstructed siblings', async () => {
+      const parent = new THREE.Object3D()
+      parent.userData.list = []
+      parent.userData.set = new Set()
+
+      const Test = ({ middle = true, size = 1 }) => (
+        <primitive object={parent}>
+          <boxGeometry name="first" attach="userData-list[]" />
+          {middle && <boxGeometry name="middle" args={[size]} attach="userData-list[]" />}
+          <boxGeometry name="last" attach="userData-list[]" />
+          <boxGeometry name="first" attach="userData-set[]" />
+          <boxGeometry name="middle" args={[size]} attach="userData-set[]" />
+          <boxGeometry name="last" attach="userData-set[]" />
+        </primitive>
+      )
+      const names = (items: Iterable<THREE.BufferGeometry>) => Array.from(items, (item) => item.name)
+
+      await act(async () => root.render(<Test />))
+      const middle = parent.userData.list[1]
+
+      // Changing args reconstructs the middle sibling in its place
+      await act(async () => root.render(<Test size={2} />))
+      expect(parent.userData.list[1]).not.toBe(middle)
+      expect(names(parent.userData.list)).toStrictEqual(['first', 'middle', 'last'])
+      expect(names(parent.userData.set)).toStrictEqual(['first', 'middle', 'last'])
+
+      // A remounted sibling goes back in between
+      await act(async () => root.render(<Test middle={false} />))
+      expect(names(parent.userData.list)).toStrictEqual(['first', 'last'])
+      await act(async () => root.render(<Test />))
+      expect(names(parent.userData.list)).toStrictEqual(['first', 'middle', 'last'])
+    })
+
+    it('creates arrays inside of Maps', async () => {
+      const parent = new THREE.Object3D()
+      parent.userData.textures = new Map()
+
+      await act(async () =>
+        root.render(
+          <primitive object={parent}>
+            <texture name="layer" attach="userData-textures-layers-0" />
+          </primitive>,
+        ),
+      )
+      expect(parent.userData.textures.get('layers')[0].name).toBe('layer')
+    })
+
+    it('throws when attaching to a missing path', () => {
+      const parent = prepare(new THREE.Object3D()) as unknown as Instance
+      const child = prepare(new THREE.Object3D()) as unknown as Instance
+      expect(() => attach(parent, child, 'userData-missing-key')).toThrow(
+        'R3F: Cannot attach to "userData-missing-key", "userData-missing" is undefined!',
+      )
+      expect(() => attach(parent, child, 'userData[]')).toThrow(
+        'R3F: Cannot attach to "userData[]", it is not an array or Set!',
+      )
+    })
+  })
+
   it('does the full lifecycle', async () => {
     const log: string[] = []
     class Log extends React.Component<{ name: string }> {
@@ -1047,4 +1183,275 @@ describe('renderer', () => {
     expect(meshDispose).toBeCalledTimes(1)
     expect(primitiveDispose).not.toBeCalled()
   })
+
+  it('should dispose of shared resources once the last owner unmounts', async () => {
+    const geometry = React.createRef<THREE.BoxGeometry>()
+    const disposed = jest.fn()
+    let stats: ResourceStats = null!
+
+    const Stats = () => {
+      stats = useResourceStats()
+      return null
+    }
+
+    const Test = ({ first = true, second = true }) => (
+      <>
+        <Stats />
+        {first && (
+          <mesh>
+            <boxGeometry ref={geometry} />
+          </mesh>
+        )}
+        {second && geometry.current && <mesh geometry={geometry.current} />}
+      </>
+    )
+
+    // Roots of other tests may still hold on to their resources
+    const { geometries, materials } = getResourceStats()
+
+    await act(async () => root.render(<Test />))
+    geometry.current!.addEventListener('dispose', disposed)
+    // Render again, now that the geometry can be shared
+    await act(async () => root.render(<Test />))
+    // Every mesh brings its default material
+    expect(stats).toEqual({ geometries: geometries + 1, materials: materials + 2, textures: 0 })
+
+    await act(async () => root.render(<Test first={false} />))
+    expect(disposed).not.toBeCalled()
+    expect(stats).toEqual({ geometries: geometries + 1, materials: materials + 1, textures: 0 })
+
+    await act(async () => root.render(<Test first={false} second={false} />))
+    expect(disposed).toBeCalledTimes(1)
+    expect(stats).toEqual({ geometries, materials, textures: 0 })
+  })
+
+  it('should queue disposals within the dispose budget', async () => {
+    const disposed: THREE.BufferGeometry[] = []
+    const onDisposed = jest.fn()
+    const meshes = [0, 1, 2]
+
+    const Test = ({ visible = true }) => (
+      <>
+        {visible &&
+          meshes.map((i) => (
+            <mesh key={i}>
+              <boxGeometry
+                ref={(geometry) => geometry?.addEventListener('dispose', () => void disposed.push(geometry))}
+              />
+            </mesh>
+          ))}
+      </>
+    )
+
+    // Hold off idle callbacks, the queue only drains further once it's flushed
+    const scheduler: typeof import('scheduler') = require('scheduler')
+    const schedule = jest.spyOn(scheduler, 'unstable_scheduleCallback').mockImplementation(() => null!)
+
+    let state: RootState = null!
+    await act(
+      async () =>
+        (state = root
+          .configure({ disposeBudget: 0, onDisposed })
+          .render(<Test />)
+          .getState()),
+    )
+    await act(async () => root.render(<Test visible={false} />))
+
+    // At least one object is disposed per frame, the rest waits
+    expect(disposed.length).toBe(1)
+    expect(onDisposed).not.toBeCalled()
+    expect(schedule).toBeCalledTimes(1)
+
+    await act(async () => state.flushDisposals())
+    expect(disposed.length).toBe(3)
+    expect(onDisposed).toBeCalledTimes(1)
+    expect(onDisposed).toBeCalledWith(disposed)
+    expect(state.internal.disposals.queue).toHaveLength(0)
+
+    // The exported flush covers every root
+    await act(async () => root.render(<Test />))
+    await act(async () => root.render(<Test visible={false} />))
+    expect(disposed.length).toBe(4)
+    await act(async () => flushDisposals())
+    expect(disposed.length).toBe(6)
+    expect(onDisposed).toBeCalledTimes(2)
+    schedule.mockRestore()
+  })
+
+  it('should detect resources that outlive their owner', async () => {
+    const onLeak = jest.fn()
+    const detector = detectLeaks({ onLeak })
+
+    const Leaky = () => (
+      <mesh dispose={null}>
+        <boxGeometry />
+      </mesh>
+    )
+    const Tidy = () => (
+      <mesh>
+        <boxGeometry />
+      </mesh>
+    )
+
+    for (let i = 0; i < 4; i++) {
+      await act(async () => root.render(<Tidy />))
+      await act(async () => root.render(null))
+    }
+    expect(detector.getLeaks()).toHaveLength(0)
+
+    for (let i = 0; i < 3; i++) {
+      await act(async () => root.render(<Leaky />))
+      await act(async () => root.render(null))
+    }
+    expect(onLeak).not.toBeCalled()
+    const leaks = detector.getLeaks()
+    expect(leaks).toHaveLength(3)
+    expect(leaks[0]).toMatchObject({ kind: 'geometry', source: 'element' })
+    expect(leaks[0].stack[0]).toBe('Leaky')
+
+    // Warns once the resources that are left behind grew for three cycles in a row
+    await act(async () => root.render(<Leaky />))
+    expect(onLeak).toBeCalledTimes(1)
+    expect(onLeak.mock.calls[0][0]).toBe('Leaky')
+    expect(onLeak.mock.calls[0][1]).toHaveLength(3)
+
+    detector.stop()
+  })
+
+  it('should preserve state of reconstructed instances that opt in', async () => {
+    const camera = React.createRef<THREE.PerspectiveCamera>()
+    const material = React.createRef<THREE.ShaderMaterial>()
+
+    const Test = ({ fov = 75, preserve = true }) => (
+      <>
+        <perspectiveCamera ref={camera} args={[fov]} preserve={preserve} />
+        <mesh>
+          <shaderMaterial
+            ref={material}
+            args={[{ uniforms: { time: { value: 0 } }, defines: { FOV: fov } }]}
+            preserve={['uniforms']}
+          />
+        </mesh>
+      </>
+    )
+
+    await act(async () => root.render(<Test />))
+    const previous = camera.current!
+    previous.position.set(1, 2, 3)
+    previous.userData.visited = true
+    material.current!.uniforms.time.value = 5
+
+    await act(async () => root.render(<Test fov={50} />))
+    expect(camera.current).not.toBe(previous)
+    expect(camera.current!.fov).toBe(50)
+    expect(camera.current!.position.toArray()).toStrictEqual([1, 2, 3])
+    expect(camera.current!.userData).toStrictEqual({ visited: true })
+    expect(material.current!.defines.FOV).toBe(50)
+    expect(material.current!.uniforms.time.value).toBe(5)
+
+    // Without opting in the instance starts over
+    await act(async () => root.render(<Test fov={60} preserve={false} />))
+    expect(camera.current!.position.toArray()).toStrictEqual([0, 0, 0])
+    expect(camera.current!.userData).toStrictEqual({})
+  })
+
+  it('should let props take precedence over preserved state', async () => {
+    const camera = React.createRef<THREE.PerspectiveCamera>()
+    const material = React.createRef<THREE.ShaderMaterial>()
+
+    const Test = ({ fov = 75, ...props }: { fov?: number; position?: number[]; time?: number }) => (
+      <mesh>
+        <perspectiveCamera ref={camera} args={[fov]} position={props.position as THREE.Vector3Tuple} preserve />
+        <shaderMaterial
+          ref={material}
+          args={[{ uniforms: { time: { value: 0 } }, defines: { FOV: fov } }]}
+          uniforms-time-value={props.time}
+          preserve
+        />
+      </mesh>
+    )
+
+    await act(async () => root.render(<Test />))
+    const previous = material.current
+    camera.current!.position.set(1, 2, 3)
+    camera.current!.scale.setScalar(2)
+    material.current!.uniforms.time.value = 5
+
+    await act(async () => root.render(<Test fov={50} position={[4, 5, 6]} time={1} />))
+    expect(material.current).not.toBe(previous)
+    expect(camera.current!.fov).toBe(50)
+    expect(camera.current!.position.toArray()).toStrictEqual([4, 5, 6])
+    expect(camera.current!.scale.toArray()).toStrictEqual([2, 2, 2])
+    expect(material.current!.uniforms.time.value).toBe(1)
+  })
+
+  it('should preserve state of classes that declare it', async () => {
+    const counter = React.createRef<Counter>()
+
+    await act(async () => root.render(<counter ref={counter} args={[1]} />))
+    counter.current!.count = 3
+
+    await act(async () => root.render(<counter ref={counter} args={[2]} />))
+    expect(counter.current!.step).toBe(2)
+    expect(counter.current!.count).toBe(3)
+
+    await act(async () => root.render(<counter ref={counter} args={[3]} preserve={false} />))
+    expect(counter.current!.count).toBe(0)
+  })
+
+  it('should capture frames at a fixed rate', async () => {
+    const times: number[] = []
+    const Test = () => {
+      useFrame((state) => void times.push(state.clock.elapsedTime))
+      return null
+    }
+
+    let state: RootState = null!
+    await act(
+      async () =>
+        (state = root
+          .configure({ frameloop: 'demand' })
+          .render(<Test />)
+          .getState()),
+    )
+    times.length = 0
+
+    const frames: CapturedFrame[] = []
+    await root.captureFrames({ fps: 4, duration: 1, onFrame: (frame) => void frames.push(frame) })
+
+    expect(frames.map((frame) => frame.index)).toStrictEqual([0, 1, 2, 3])
+    expect(frames.map((frame) => frame.timestamp)).toStrictEqual([0, 0.25, 0.5, 0.75])
+    expect(times).toStrictEqual([0, 0.25, 0.5, 0.75])
+    const { drawingBufferWidth: width, drawingBufferHeight: height } = state.gl.getContext()
+    expect(frames[0].data).toMatchObject({ width, height })
+    expect(state.get().frameloop).toBe('demand')
+  })
+
+  it('should capture frames from 0 after the root has advanced', async () => {
+    const deltas: number[] = []
+    const times: number[] = []
+    const Test = () => {
+      useFrame((state, delta) => {
+        deltas.push(delta)
+        times.push(state.clock.elapsedTime)
+      })
+      return null
+    }
+
+    let state: RootState = null!
+    await act(
+      async () =>
+        (state = root
+          .configure({ frameloop: 'never' })
+          .render(<Test />)
+          .getState()),
+    )
+    state.advance(5)
+    state.advance(10)
+    deltas.length = times.length = 0
+
+    await root.captureFrames({ fps: 4, duration: 1, onFrame: () => {} })
+    expect(deltas).toStrictEqual([0, 0.25, 0.25, 0.25])
+    expect(times).toStrictEqual([0, 0.25, 0.5, 0.75])
+  })
 })
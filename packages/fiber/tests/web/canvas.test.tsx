@@ -1,8 +1,8 @@
 // use default export for jest.spyOn
 import React from 'react'
-import { render, RenderResult } from '@testing-library/react'
+import { render, fireEvent, RenderResult } from '@testing-library/react'
 
-import { Canvas, act } from '../../src'
+import { Canvas, act, RootState } from '../../src'
 
 describe('web Canvas', () => {
   it('should correctly mount', async () => {
@@ -59,4 +59,48 @@ describe('web Canvas', () => {
 
     expect(useLayoutEffect).not.toHaveBeenCalled()
   })
+
+  it('can mirror interactive objects for assistive technologies', async () => {
+    const handleClick = jest.fn()
+    const handleMissed = jest.fn()
+    let state: RootState = null!
+
+    await act(async () => {
+      render(
+        <Canvas accessibility frameloop="never" onPointerMissed={handleMissed} onCreated={(s) => (state = s)}>
+          <mesh aria-label="Box" onClick={handleClick}>
+            <boxGeometry args={[2, 2]} />
+            <meshBasicMaterial />
+          </mesh>
+          <mesh name="Sphere" role="checkbox" aria-checked onPointerOver={() => null} />
+          <mesh name="Hover" onPointerOver={() => null} />
+        </Canvas>,
+      )
+    })
+    // Elements are mirrored without a frame being rendered
+
+    const button = document.querySelector('[role="button"]') as HTMLElement
+    expect(button.getAttribute('aria-label')).toBe('Box')
+    expect(parseFloat(button.style.left)).toBeGreaterThan(0)
+    expect(parseFloat(button.style.width)).toBeGreaterThan(0)
+
+    const checkbox = document.querySelector('[role="checkbox"]') as HTMLElement
+    expect(checkbox.getAttribute('aria-label')).toBe('Sphere')
+    expect(checkbox.getAttribute('aria-checked')).toBe('true')
+    // Objects that can only be hovered stay out of the tab order
+    expect(document.querySelector('[aria-label="Hover"]')).toBe(null)
+
+    // Activating the element clicks the object, without raycasting or moving the pointer
+    const pointer = state.pointer.set(0.5, 0.5).clone()
+    await act(async () => void fireEvent.click(button))
+    await act(async () => void fireEvent.keyDown(button, { key: 'Enter' }))
+    expect(handleClick).toHaveBeenCalledTimes(2)
+    expect(handleClick.mock.calls[0][0].object).toBe(state.scene.children[0])
+    expect(handleMissed).not.toHaveBeenCalled()
+    expect(state.pointer).toStrictEqual(pointer)
+
+    // Focusing the element focuses the object
+    await act(async () => button.focus())
+    expect(state.get().internal.focused).toBe(state.scene.children[0])
+  })
 })
@@ -754,6 +754,9 @@ export class WebGL2RenderingContext {
     return extensions[ext]
   }
 
+  // Render targets key state by their framebuffers, they have to be unique objects
+  createFramebuffer = () => ({})
+
   getProgramInfoLog = () => ''
 
   getShaderInfoLog = () => ''
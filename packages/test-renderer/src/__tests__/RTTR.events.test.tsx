@@ -1,4 +1,5 @@
 import * as React from 'react'
+import * as THREE from 'three'
 
 import ReactThreeTestRenderer from '../index'
 import type { ReactThreeTest } from '../index'
@@ -54,4 +55,40 @@ describe('ReactThreeTestRenderer Events', () => {
 
     expect(handlePointerDown).not.toHaveBeenCalled()
   })
+
+  it('should replay recorded events', async () => {
+    const handleClick = jest.fn()
+
+    const Component = () => {
+      return (
+        <mesh onClick={handleClick}>
+          <boxGeometry args={[2, 2]} />
+          <meshBasicMaterial />
+        </mesh>
+      )
+    }
+
+    const { replayEvents } = await ReactThreeTestRenderer.create(<Component />)
+
+    const camera = new THREE.PerspectiveCamera(75, 1280 / 800, 0.1, 1000)
+    camera.position.z = 5
+    camera.updateMatrix()
+    const entry = (name: string, type: string) => ({
+      name,
+      time: 0,
+      type,
+      init: { pointerId: 1, offsetX: 640, offsetY: 400 },
+      bubbled: false,
+      pointer: [0, 0] as [number, number],
+      camera: { matrix: camera.matrix.toArray(), projectionMatrix: camera.projectionMatrix.toArray() },
+      size: { width: 1280, height: 800, top: 0, left: 0 },
+    })
+
+    await replayEvents({
+      version: 1,
+      events: [entry('onPointerDown', 'pointerdown'), entry('onPointerUp', 'pointerup'), entry('onClick', 'click')],
+    })
+
+    expect(handleClick).toHaveBeenCalledTimes(1)
+  })
 })
@@ -1,7 +1,8 @@
 import * as React from 'react'
 import * as THREE from 'three'
 
-import { extend, _roots as mockRoots, createRoot, reconciler, act as _act } from '@react-three/fiber'
+import { extend, _roots as mockRoots, createRoot, reconciler, replayEvents, act as _act } from '@react-three/fiber'
+import type { EventLog } from '@react-three/fiber'
 
 import { toTree } from './helpers/tree'
 import { toGraph } from './helpers/graph'
@@ -50,8 +51,8 @@ const create = async (element: React.ReactNode, options?: Partial<CreateOptions>
       // Bail if canvas is unmounted
       if (!mockRoots.has(canvas)) return null
 
-      // Traverse fiber nodes for R3F root
-      const root = { current: mockRoots.get(canvas)!.fiber.current }
+      // Traverse fiber nodes for R3F root, below the FiberProvider that the root is wrapped in
+      const root = { current: mockRoots.get(canvas)!.fiber.current.child }
       while (!root.current.child?.stateNode) root.current = root.current.child
 
       // Return R3F instance from root
@@ -89,6 +90,9 @@ const create = async (element: React.ReactNode, options?: Partial<CreateOptions>
 
       Promise.all(promises)
     },
+    async replayEvents(log: EventLog) {
+      await act(async () => replayEvents(_store, log))
+    },
   }
 }
 
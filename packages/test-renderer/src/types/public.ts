@@ -1,4 +1,4 @@
-import type { Camera, RenderProps } from '@react-three/fiber'
+import type { Camera, EventLog, RenderProps } from '@react-three/fiber'
 
 import { ReactThreeTestInstance } from '../createTestInstance'
 
@@ -28,6 +28,7 @@ export type Renderer = {
   toGraph: () => SceneGraph | undefined
   fireEvent: (element: ReactThreeTestInstance, handler: string, data?: MockEventData) => Promise<any>
   advanceFrames: (frames: number, delta: number | number[]) => Promise<void>
+  replayEvents: (log: EventLog) => Promise<void>
 }
 
 export interface SceneGraphItem {